@@ -2,12 +2,14 @@ import { type ComponentType, useState } from 'react'
 import {
   BadgeDollarSign,
   Building2,
+  Calculator,
   Code,
   HandCoins,
   Home,
   Landmark,
   RefreshCcw
 } from 'lucide-react'
+import { AffordabilityCalculator } from './components/AffordabilityCalculator'
 import { CashOutCalculator } from './components/CashOutCalculator'
 import { PurchaseCalculator } from './components/PurchaseCalculator'
 import { RateBuydownCalculator } from './components/RateBuydownCalculator'
@@ -19,6 +21,7 @@ import { EmbedPage } from './embed/EmbedPage'
 
 type TabKey =
   | 'purchase'
+  | 'affordability'
   | 'refinance'
   | 'rent-vs-buy'
   | 'cash-out'
@@ -34,6 +37,7 @@ type TabDef = {
 
 const TABS: TabDef[] = [
   { key: 'purchase', label: 'Purchase', Icon: Home },
+  { key: 'affordability', label: 'Affordability', Icon: Calculator },
   { key: 'refinance', label: 'Refinance', Icon: RefreshCcw },
   { key: 'rent-vs-buy', label: 'Rent vs Buy', Icon: Building2 },
   { key: 'cash-out', label: 'Cash Out', Icon: HandCoins },
@@ -97,6 +101,7 @@ export default function App() {
             <div className="mb-5">{tabsBar}</div>
 
             {activeTab === 'purchase' && <PurchaseCalculator />}
+            {activeTab === 'affordability' && <AffordabilityCalculator />}
             {activeTab === 'refinance' && <RefinanceCalculator />}
             {activeTab === 'rent-vs-buy' && <RentVsBuyCalculator />}
             {activeTab === 'cash-out' && <CashOutCalculator />}
@@ -0,0 +1,486 @@
+import { useId, useMemo, useState } from 'react'
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts'
+import { CHART_ANIMATION, CyberpunkTooltip, renderCyberpunkDefs } from './charts/cyberpunk'
+import { useEmbedTheme } from '../embed/ThemeProvider'
+import {
+  type AffordabilityConstraint,
+  DTI_PRESETS,
+  calculateAffordability
+} from '../finance/affordability'
+import { LOAN_PROGRAMS, type LoanProgram, MIN_DOWN_PAYMENT_PERCENT } from '../finance/programs'
+
+const currencyFormatter = new Intl.NumberFormat('en-US', {
+  style: 'currency',
+  currency: 'USD',
+  maximumFractionDigits: 0
+})
+
+function formatCurrency(value: number) {
+  if (!Number.isFinite(value)) return '$0'
+  return currencyFormatter.format(Math.max(0, Math.round(value)))
+}
+
+function formatPercent(value: number) {
+  return `${(Number.isFinite(value) ? value : 0).toFixed(1)}%`
+}
+
+function clampNonNegative(n: number) {
+  return Number.isFinite(n) ? Math.max(0, n) : 0
+}
+
+const CONSTRAINT_LABELS: Record<AffordabilityConstraint, string> = {
+  'front-end': 'Front-end ratio',
+  'back-end': 'Back-end ratio',
+  'down-payment': 'Minimum down payment'
+}
+
+type MoneyInputProps = {
+  id: string
+  label: string
+  value: number
+  onChange: (n: number) => void
+  helper?: string
+}
+
+function MoneyInput({ id, label, value, onChange, helper }: MoneyInputProps) {
+  return (
+    <label className="block">
+      <div className="text-sm font-medium text-[color:var(--mc-text)]/85">{label}</div>
+      <div className="mt-2 flex items-center rounded-xl border border-[var(--mc-input-border)] bg-[var(--mc-input-bg)] shadow-sm focus-within:border-[var(--mc-primary)] focus-within:ring-2 focus-within:ring-[var(--mc-ring)]">
+        <span className="select-none pl-3 text-sm font-semibold text-[var(--mc-muted)]">$</span>
+        <input
+          id={id}
+          type="number"
+          inputMode="decimal"
+          min={0}
+          value={Number.isFinite(value) ? value : 0}
+          onChange={e => onChange(clampNonNegative(Number(e.target.value)))}
+          className="w-full bg-transparent px-2 py-2.5 text-sm font-medium text-[var(--mc-text)] outline-none"
+          aria-label={label}
+        />
+      </div>
+      {helper ? <div className="mt-1 text-xs text-[var(--mc-muted)]">{helper}</div> : null}
+    </label>
+  )
+}
+
+type NumberInputProps = {
+  id: string
+  label: string
+  value: number
+  onChange: (n: number) => void
+  min?: number
+  step?: number
+  suffix?: string
+  helper?: string
+}
+
+function NumberInput({
+  id,
+  label,
+  value,
+  onChange,
+  min = 0,
+  step,
+  suffix,
+  helper
+}: NumberInputProps) {
+  return (
+    <label className="block">
+      <div className="text-sm font-medium text-[color:var(--mc-text)]/85">{label}</div>
+      <div className="mt-2 flex items-center rounded-xl border border-[var(--mc-input-border)] bg-[var(--mc-input-bg)] shadow-sm focus-within:border-[var(--mc-primary)] focus-within:ring-2 focus-within:ring-[var(--mc-ring)]">
+        <input
+          id={id}
+          type="number"
+          inputMode="decimal"
+          min={min}
+          step={step}
+          value={Number.isFinite(value) ? value : 0}
+          onChange={e => onChange(clampNonNegative(Number(e.target.value)))}
+          className="w-full bg-transparent px-3 py-2.5 text-sm font-medium text-[var(--mc-text)] outline-none"
+          aria-label={label}
+        />
+        {suffix ? (
+          <span className="select-none pr-3 text-sm font-semibold text-[var(--mc-muted)]">
+            {suffix}
+          </span>
+        ) : null}
+      </div>
+      {helper ? <div className="mt-1 text-xs text-[var(--mc-muted)]">{helper}</div> : null}
+    </label>
+  )
+}
+
+export function AffordabilityCalculator() {
+  const theme = useEmbedTheme()
+  const [annualIncome, setAnnualIncome] = useState(120_000)
+  const [monthlyDebts, setMonthlyDebts] = useState(600)
+  const [downPaymentFunds, setDownPaymentFunds] = useState(60_000)
+  const [interestRatePercent, setInterestRatePercent] = useState(6.5)
+  const [loanTermYears, setLoanTermYears] = useState(30)
+  const [propertyTaxRatePercent, setPropertyTaxRatePercent] = useState(1.1)
+  const [annualInsurance, setAnnualInsurance] = useState(1_800)
+  const [monthlyHoa, setMonthlyHoa] = useState(0)
+  const [loanProgram, setLoanProgram] = useState<LoanProgram>('conventional')
+  const [frontEndPercent, setFrontEndPercent] = useState(DTI_PRESETS.conventional.frontEndPercent)
+  const [backEndPercent, setBackEndPercent] = useState(DTI_PRESETS.conventional.backEndPercent)
+
+  function selectProgram(program: LoanProgram) {
+    setLoanProgram(program)
+    setFrontEndPercent(DTI_PRESETS[program].frontEndPercent)
+    setBackEndPercent(DTI_PRESETS[program].backEndPercent)
+  }
+
+  const preset = DTI_PRESETS[loanProgram]
+  const usingPreset =
+    frontEndPercent === preset.frontEndPercent && backEndPercent === preset.backEndPercent
+  const programLabel = LOAN_PROGRAMS.find(p => p.key === loanProgram)?.label ?? 'Conventional'
+
+  const result = useMemo(
+    () =>
+      calculateAffordability({
+        annualGrossIncome: annualIncome,
+        monthlyDebts,
+        downPaymentFunds,
+        annualRatePercent: interestRatePercent,
+        termYears: loanTermYears,
+        propertyTaxRatePercent,
+        annualInsurance,
+        monthlyHoa,
+        limits: { frontEndPercent, backEndPercent },
+        program: loanProgram
+      }),
+    [
+      annualIncome,
+      annualInsurance,
+      backEndPercent,
+      downPaymentFunds,
+      frontEndPercent,
+      interestRatePercent,
+      loanProgram,
+      loanTermYears,
+      monthlyDebts,
+      monthlyHoa,
+      propertyTaxRatePercent
+    ]
+  )
+
+  const downPaymentPercent =
+    result.maxHomePrice > 0 ? (result.downPayment / result.maxHomePrice) * 100 : 0
+
+  const chartId = `cp-afford-${useId().replace(/[^a-zA-Z0-9_-]/g, '')}`
+  const chartData = useMemo(
+    () => [
+      {
+        name: 'Front-end limit',
+        amount: result.frontEndBudget,
+        fill: `url(#${chartId}-grad-secondary)`
+      },
+      {
+        name: 'Back-end limit',
+        amount: result.backEndBudget,
+        fill: `url(#${chartId}-grad-accent)`
+      },
+      {
+        name: 'Housing payment',
+        amount: result.totalHousingPayment,
+        fill: `url(#${chartId}-grad-primary)`
+      }
+    ],
+    [chartId, result]
+  )
+
+  const bindingNote =
+    result.bindingConstraint === 'down-payment'
+      ? `Your income supports a larger loan, but ${formatCurrency(downPaymentFunds)} only covers the ${MIN_DOWN_PAYMENT_PERCENT[loanProgram]}% ${programLabel} minimum down payment up to this price.`
+      : result.bindingConstraint === 'front-end'
+        ? `Housing costs reach ${formatPercent(frontEndPercent)} of gross income before total debts reach ${formatPercent(backEndPercent)}.`
+        : `Housing costs plus ${formatCurrency(monthlyDebts)}/mo of other debts reach ${formatPercent(backEndPercent)} of gross income first.`
+
+  return (
+    <div className="rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface)] p-6 shadow-sm text-[var(--mc-text)]">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <div className="text-sm font-semibold text-[var(--mc-text)]">Affordability</div>
+          <div className="mt-1 text-sm text-[var(--mc-muted)]">
+            Find the most house your income supports under debt-to-income limits.
+          </div>
+        </div>
+        <div className="rounded-xl border border-[var(--mc-border)] bg-[var(--mc-surface-muted)] px-3 py-2 text-xs font-semibold text-[var(--mc-muted)]">
+          Live updates
+        </div>
+      </div>
+
+      <div className="mt-6 grid gap-6 lg:grid-cols-2">
+        {/* Inputs */}
+        <section className="rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface)] p-5 shadow-sm">
+          <div className="mb-4 text-sm font-semibold text-[var(--mc-text)]">Inputs</div>
+          <div className="grid gap-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <MoneyInput
+                id="annualIncome"
+                label="Gross Annual Income"
+                value={annualIncome}
+                onChange={setAnnualIncome}
+              />
+              <MoneyInput
+                id="monthlyDebts"
+                label="Monthly Debts"
+                value={monthlyDebts}
+                onChange={setMonthlyDebts}
+                helper="Car, student loan, card minimums, etc."
+              />
+            </div>
+            <MoneyInput
+              id="downPaymentFunds"
+              label="Down Payment Funds"
+              value={downPaymentFunds}
+              onChange={setDownPaymentFunds}
+            />
+            <div className="grid gap-4 sm:grid-cols-2">
+              <NumberInput
+                id="affordRate"
+                label="Interest Rate"
+                value={interestRatePercent}
+                onChange={setInterestRatePercent}
+                min={0}
+                step={0.01}
+                suffix="%"
+              />
+              <NumberInput
+                id="affordTerm"
+                label="Loan Term"
+                value={loanTermYears}
+                onChange={setLoanTermYears}
+                min={1}
+                step={1}
+                suffix="yrs"
+              />
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <NumberInput
+                id="propertyTaxRate"
+                label="Property Tax Rate"
+                value={propertyTaxRatePercent}
+                onChange={setPropertyTaxRatePercent}
+                min={0}
+                step={0.05}
+                suffix="%/yr"
+                helper="Percent of home price per year."
+              />
+              <MoneyInput
+                id="affordInsurance"
+                label="Home Insurance (Annual)"
+                value={annualInsurance}
+                onChange={setAnnualInsurance}
+              />
+            </div>
+            <MoneyInput
+              id="affordHoa"
+              label="HOA (Monthly)"
+              value={monthlyHoa}
+              onChange={setMonthlyHoa}
+            />
+
+            <div className="rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface-muted)] p-4">
+              <label className="block">
+                <div className="text-sm font-medium text-[color:var(--mc-text)]/85">
+                  Loan Program
+                </div>
+                <select
+                  value={loanProgram}
+                  onChange={e => selectProgram(e.target.value as LoanProgram)}
+                  className="mt-2 w-full rounded-xl border border-[var(--mc-input-border)] bg-[var(--mc-input-bg)] px-3 py-2.5 text-sm font-medium text-[var(--mc-text)] shadow-sm outline-none focus:border-[var(--mc-primary)] focus:ring-2 focus:ring-[var(--mc-ring)]"
+                >
+                  {LOAN_PROGRAMS.map(p => (
+                    <option key={p.key} value={p.key}>
+                      {p.label} ({DTI_PRESETS[p.key].frontEndPercent}/
+                      {DTI_PRESETS[p.key].backEndPercent})
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <div className="mt-4 grid gap-4 sm:grid-cols-2">
+                <NumberInput
+                  id="frontEndDti"
+                  label="Front-end DTI"
+                  value={frontEndPercent}
+                  onChange={setFrontEndPercent}
+                  min={0}
+                  step={0.5}
+                  suffix="%"
+                  helper="Housing payment ÷ gross income."
+                />
+                <NumberInput
+                  id="backEndDti"
+                  label="Back-end DTI"
+                  value={backEndPercent}
+                  onChange={setBackEndPercent}
+                  min={0}
+                  step={0.5}
+                  suffix="%"
+                  helper="Housing + other debts ÷ gross income."
+                />
+              </div>
+              <div className="mt-3 text-xs text-[var(--mc-muted)]">
+                {usingPreset ? `Using the ${programLabel} preset.` : 'Custom targets.'}
+              </div>
+            </div>
+          </div>
+        </section>
+
+        {/* Results */}
+        <section className="rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface)] p-5 shadow-sm">
+          <div className="mb-4 text-sm font-semibold text-[var(--mc-text)]">Results</div>
+
+          <div className="rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface-muted)] p-5 shadow-sm">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div>
+                <div className="text-xs font-semibold uppercase tracking-wide text-[var(--mc-muted)]">
+                  Maximum Home Price
+                </div>
+                <div className="mt-1 text-2xl font-semibold tracking-tight text-[var(--mc-text)]">
+                  {formatCurrency(result.maxHomePrice)}
+                </div>
+                <div className="mt-1 text-xs text-[var(--mc-muted)]">
+                  {formatPercent(downPaymentPercent)} down.
+                </div>
+              </div>
+              <div>
+                <div className="text-xs font-semibold uppercase tracking-wide text-[var(--mc-muted)]">
+                  Maximum Loan
+                </div>
+                <div className="mt-1 text-2xl font-semibold tracking-tight text-[var(--mc-text)]">
+                  {formatCurrency(result.maxLoanAmount)}
+                </div>
+                <div className="mt-1 text-xs text-[var(--mc-muted)]">
+                  At {interestRatePercent}% over {loanTermYears} years.
+                </div>
+              </div>
+            </div>
+
+            <div className="mt-4 rounded-xl border border-[var(--mc-border)] bg-[var(--mc-surface)] px-3 py-2 text-sm">
+              <div className="font-semibold text-[var(--mc-text)]">
+                Limited by: {CONSTRAINT_LABELS[result.bindingConstraint]}
+              </div>
+              <div className="mt-0.5 text-xs text-[var(--mc-muted)]">{bindingNote}</div>
+            </div>
+
+            <div className="mt-4 grid gap-2 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-[color:var(--mc-text)]/80">
+                  Principal &amp; Interest
+                </span>
+                <span className="font-semibold text-[var(--mc-text)]">
+                  {formatCurrency(result.monthlyPrincipalAndInterest)}
+                </span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-[color:var(--mc-text)]/80">Property Tax</span>
+                <span className="font-semibold text-[var(--mc-text)]">
+                  {formatCurrency(result.monthlyTax)}
+                </span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-[color:var(--mc-text)]/80">Home Insurance</span>
+                <span className="font-semibold text-[var(--mc-text)]">
+                  {formatCurrency(result.monthlyInsurance)}
+                </span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-[color:var(--mc-text)]/80">HOA</span>
+                <span className="font-semibold text-[var(--mc-text)]">
+                  {formatCurrency(result.monthlyHoa)}
+                </span>
+              </div>
+              <div className="flex items-center justify-between border-t border-[var(--mc-border)] pt-2">
+                <span className="font-medium text-[color:var(--mc-text)]/80">Housing Payment</span>
+                <span className="font-semibold text-[var(--mc-text)]">
+                  {formatCurrency(result.totalHousingPayment)}
+                </span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-[color:var(--mc-text)]/80">
+                  Front-end / Back-end
+                </span>
+                <span className="font-semibold text-[var(--mc-text)]">
+                  {formatPercent(result.frontEndRatioPercent)} /{' '}
+                  {formatPercent(result.backEndRatioPercent)}
+                </span>
+              </div>
+            </div>
+          </div>
+
+          <div className="mt-6 rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface)] p-4 shadow-sm">
+            <div className="mb-3 flex items-center justify-between">
+              <div className="text-sm font-semibold text-[var(--mc-text)]">
+                Monthly housing budget
+              </div>
+              <div className="text-xs font-medium text-[var(--mc-muted)]">Bar chart</div>
+            </div>
+
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart key={chartId} data={chartData} margin={{ left: 8, right: 8 }}>
+                  {renderCyberpunkDefs(chartId, theme.chart)}
+                  <CartesianGrid strokeDasharray="4 8" stroke="rgba(148,163,184,0.25)" />
+                  <XAxis
+                    dataKey="name"
+                    tickLine={false}
+                    axisLine={false}
+                    tick={{ fill: 'rgba(148,163,184,0.9)', fontSize: 12 }}
+                  />
+                  <YAxis
+                    tickLine={false}
+                    axisLine={false}
+                    tickFormatter={v => `$${Math.round(Number(v)).toLocaleString('en-US')}`}
+                    width={64}
+                    tick={{ fill: 'rgba(148,163,184,0.9)', fontSize: 12 }}
+                  />
+                  <Tooltip
+                    content={
+                      <CyberpunkTooltip
+                        valueFormatter={v => formatCurrency(typeof v === 'number' ? v : Number(v))}
+                      />
+                    }
+                    cursor={{ fill: 'rgba(79,172,254,0.06)' }}
+                  />
+                  <Bar
+                    dataKey="amount"
+                    name="Monthly"
+                    radius={[14, 14, 14, 14]}
+                    isAnimationActive
+                    animationDuration={CHART_ANIMATION.durationMs}
+                    animationEasing={CHART_ANIMATION.easing}
+                    animationBegin={50}
+                  >
+                    {chartData.map((entry, idx) => (
+                      <Cell
+                        key={`cell-${idx}`}
+                        fill={entry.fill}
+                        filter={`url(#${chartId}-glow)`}
+                        stroke="rgba(255,255,255,0.25)"
+                        strokeWidth={1}
+                      />
+                    ))}
+                  </Bar>
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </section>
+      </div>
+    </div>
+  )
+}
+
+
@@ -1,4 +1,13 @@
 import { useMemo, useState } from 'react'
+import { calculateMonthlyPrincipalAndInterest } from '../finance/amortization'
+import {
+  calculateCashOutLimit,
+  CASH_OUT_OPTION_LABELS,
+  CASH_OUT_PROGRAMS,
+  type CashOutProgram,
+  compareCashOutOptions,
+  SECOND_LIEN_MAX_CLTV_PERCENT
+} from '../finance/cashOut'
 
 const currencyFormatter = new Intl.NumberFormat('en-US', {
   style: 'currency',
@@ -15,25 +24,6 @@ function clampNonNegative(n: number) {
   return Number.isFinite(n) ? Math.max(0, n) : 0
 }
 
-function calculateMonthlyPrincipalAndInterest(
-  principal: number,
-  annualRatePercent: number,
-  termYears: number
-) {
-  const P = clampNonNegative(principal)
-  const years = clampNonNegative(termYears)
-  const n = Math.round(years * 12)
-  if (P === 0 || n === 0) return 0
-
-  const annualRate = clampNonNegative(annualRatePercent) / 100
-  const r = annualRate / 12
-
-  if (r === 0) return P / n
-
-  const pow = Math.pow(1 + r, n)
-  return (P * r * pow) / (pow - 1)
-}
-
 type MoneyInputProps = {
   id: string
   label: string
@@ -112,46 +102,116 @@ function NumberInput({
 }
 
 export function CashOutCalculator() {
-  const DEFAULT_TERM_YEARS = 30
-  const MAX_LTV = 0.8
-
+  const [program, setProgram] = useState<CashOutProgram>('conventional-primary')
+  const [termYears, setTermYears] = useState(30)
+  const [retainedEquityPercent, setRetainedEquityPercent] = useState(
+    CASH_OUT_PROGRAMS['conventional-primary'].minRetainedEquityPercent
+  )
   const [currentHomeValue, setCurrentHomeValue] = useState(500_000)
   const [existingMortgageBalance, setExistingMortgageBalance] = useState(250_000)
   const [desiredCashOutAmount, setDesiredCashOutAmount] = useState(50_000)
   const [newInterestRate, setNewInterestRate] = useState(6.75)
 
+  // Side-by-side comparison with second liens
+  const [compareOptions, setCompareOptions] = useState(false)
+  const [existingRatePercent, setExistingRatePercent] = useState(3.25)
+  const [existingRemainingYears, setExistingRemainingYears] = useState(25)
+  const [homeEquityRatePercent, setHomeEquityRatePercent] = useState(8.25)
+  const [homeEquityTermYears, setHomeEquityTermYears] = useState(15)
+  const [helocRatePercent, setHelocRatePercent] = useState(8.5)
+  const [helocDrawYears, setHelocDrawYears] = useState(10)
+  const [helocRepaymentYears, setHelocRepaymentYears] = useState(20)
+  const [horizonYears, setHorizonYears] = useState(10)
+
+  const rules = CASH_OUT_PROGRAMS[program]
+  // Programs offer different terms; fall back to the longest when the chosen one isn't offered.
+  const term = rules.termYears.includes(termYears)
+    ? termYears
+    : rules.termYears[rules.termYears.length - 1]
+
+  function selectProgram(next: CashOutProgram) {
+    setProgram(next)
+    setRetainedEquityPercent(CASH_OUT_PROGRAMS[next].minRetainedEquityPercent)
+  }
+
   const {
+    maxLtvPercent,
     maxLoanAllowed,
     maxCashOutAllowed,
     adjustedCashOut,
     newLoanAmount,
     newMonthlyPayment,
     ltvPercent,
-    wasCapped
+    wasCapped,
+    rule
   } = useMemo(() => {
-    const homeValue = clampNonNegative(currentHomeValue)
-    const existing = clampNonNegative(existingMortgageBalance)
-    const desired = clampNonNegative(desiredCashOutAmount)
-
-    const maxLoan = homeValue * MAX_LTV
-    const maxCashOut = Math.max(0, maxLoan - existing)
-
-    const cashOut = Math.min(desired, maxCashOut)
-    const loan = existing + cashOut
-    const payment = calculateMonthlyPrincipalAndInterest(loan, newInterestRate, DEFAULT_TERM_YEARS)
-
-    const ltv = homeValue > 0 ? (loan / homeValue) * 100 : 0
+    const limit = calculateCashOutLimit({
+      program,
+      homeValue: currentHomeValue,
+      existingBalance: existingMortgageBalance,
+      desiredCashOut: desiredCashOutAmount,
+      retainedEquityPercent
+    })
 
     return {
-      maxLoanAllowed: maxLoan,
-      maxCashOutAllowed: maxCashOut,
-      adjustedCashOut: cashOut,
-      newLoanAmount: loan,
-      newMonthlyPayment: payment,
-      ltvPercent: ltv,
-      wasCapped: desired > maxCashOut
+      maxLtvPercent: limit.maxLtvPercent,
+      maxLoanAllowed: limit.maxLoan,
+      maxCashOutAllowed: limit.maxCashOut,
+      adjustedCashOut: limit.cashOut,
+      newLoanAmount: limit.loanAmount,
+      newMonthlyPayment: calculateMonthlyPrincipalAndInterest(
+        limit.loanAmount,
+        newInterestRate,
+        term
+      ),
+      ltvPercent: limit.ltvPercent,
+      wasCapped: limit.wasCapped,
+      rule: limit.rule
     }
-  }, [currentHomeValue, desiredCashOutAmount, existingMortgageBalance, newInterestRate])
+  }, [
+    currentHomeValue,
+    desiredCashOutAmount,
+    existingMortgageBalance,
+    newInterestRate,
+    program,
+    retainedEquityPercent,
+    term
+  ])
+
+  const horizon = Math.max(1, Math.round(horizonYears))
+  const comparison = useMemo(() => {
+    const options = compareCashOutOptions({
+      homeValue: currentHomeValue,
+      existingBalance: existingMortgageBalance,
+      existingRatePercent,
+      existingRemainingYears,
+      cashNeeded: adjustedCashOut,
+      refiRatePercent: newInterestRate,
+      refiTermYears: term,
+      homeEquityRatePercent,
+      homeEquityTermYears,
+      helocRatePercent,
+      helocDrawYears,
+      helocRepaymentYears,
+      horizonYears: horizon
+    })
+    const lowestInterest = Math.min(...options.map(option => option.totalInterest))
+    return { options, lowestInterest }
+  }, [
+    adjustedCashOut,
+    currentHomeValue,
+    existingMortgageBalance,
+    existingRatePercent,
+    existingRemainingYears,
+    helocDrawYears,
+    helocRatePercent,
+    helocRepaymentYears,
+    homeEquityRatePercent,
+    homeEquityTermYears,
+    horizon,
+    newInterestRate,
+    term
+  ])
 
   return (
     <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
@@ -159,11 +219,11 @@ export function CashOutCalculator() {
         <div>
           <div className="text-sm font-semibold text-slate-900">Cash Out</div>
           <div className="mt-1 text-sm text-slate-500">
-            Estimate your new payment while respecting an 80% max LTV.
+            Estimate your new payment while respecting your loan program's cash-out limits.
           </div>
         </div>
         <div className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-2 text-xs font-semibold text-slate-600">
-          {DEFAULT_TERM_YEARS}-year assumption
+          {term}-year term
         </div>
       </div>
 
@@ -172,6 +232,52 @@ export function CashOutCalculator() {
         <section className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
           <div className="mb-4 text-sm font-semibold text-slate-900">Inputs</div>
           <div className="grid gap-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <label className="block">
+                <div className="text-sm font-medium text-slate-800">Loan Program</div>
+                <div className="mt-2">
+                  <select
+                    value={program}
+                    onChange={e => selectProgram(e.target.value as CashOutProgram)}
+                    className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2.5 text-sm font-medium text-slate-900 shadow-sm outline-none focus:border-navy-900 focus:ring-2 focus:ring-navy-900/10"
+                  >
+                    {(Object.keys(CASH_OUT_PROGRAMS) as CashOutProgram[]).map(key => (
+                      <option key={key} value={key}>
+                        {CASH_OUT_PROGRAMS[key].label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </label>
+              <label className="block">
+                <div className="text-sm font-medium text-slate-800">Loan Term</div>
+                <div className="mt-2">
+                  <select
+                    value={term}
+                    onChange={e => setTermYears(Number(e.target.value))}
+                    className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2.5 text-sm font-medium text-slate-900 shadow-sm outline-none focus:border-navy-900 focus:ring-2 focus:ring-navy-900/10"
+                  >
+                    {rules.termYears.map(years => (
+                      <option key={years} value={years}>
+                        {years} years
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </label>
+            </div>
+            <NumberInput
+              id="retainedEquity"
+              label="Minimum Retained Equity"
+              value={retainedEquityPercent}
+              onChange={setRetainedEquityPercent}
+              min={0}
+              step={1}
+              suffix="%"
+              helper={`${rules.label} allows up to ${rules.maxLtvPercent}% LTV${
+                rules.maxCashOut !== null ? ` and ${formatCurrency(rules.maxCashOut)} cash out` : ''
+              }. Raise this for a lender overlay.`}
+            />
             <MoneyInput
               id="homeValue"
               label="Current Home Value"
@@ -191,7 +297,7 @@ export function CashOutCalculator() {
               onChange={setDesiredCashOutAmount}
               helper={
                 wasCapped
-                  ? `Capped by 80% LTV. Max allowed cash out: ${formatCurrency(maxCashOutAllowed)}`
+                  ? `Capped by ${rule}. Max allowed cash out: ${formatCurrency(maxCashOutAllowed)}`
                   : undefined
               }
             />
@@ -213,10 +319,9 @@ export function CashOutCalculator() {
 
           {wasCapped ? (
             <div className="mb-4 rounded-2xl border border-amber-200 bg-amber-50 p-4 text-sm text-amber-900">
-              <div className="font-semibold">Requested cash out exceeds 80% LTV.</div>
+              <div className="font-semibold">Requested cash out exceeds the program limit.</div>
               <div className="mt-1 text-amber-900/80">
-                We capped the cash out amount to keep the new loan at or below{' '}
-                {(MAX_LTV * 100).toFixed(0)}% of home value.
+                We capped the cash out amount at {formatCurrency(maxCashOutAllowed)}. {rule}.
               </div>
             </div>
           ) : null}
@@ -231,7 +336,7 @@ export function CashOutCalculator() {
                   {formatCurrency(newMonthlyPayment)}
                 </div>
                 <div className="mt-1 text-xs text-slate-500">
-                  Principal &amp; interest only ({DEFAULT_TERM_YEARS} years).
+                  Principal &amp; interest only ({term} years).
                 </div>
               </div>
               <div>
@@ -255,7 +360,9 @@ export function CashOutCalculator() {
                 </span>
               </div>
               <div className="flex items-center justify-between">
-                <span className="font-medium text-slate-700">Max Loan Allowed (80% LTV)</span>
+                <span className="font-medium text-slate-700">
+                  Max Loan Allowed ({maxLtvPercent}% LTV)
+                </span>
                 <span className="font-semibold text-slate-900">
                   {formatCurrency(maxLoanAllowed)}
                 </span>
@@ -270,6 +377,181 @@ export function CashOutCalculator() {
           </div>
         </section>
       </div>
+
+      <section className="mt-6 rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <div className="text-sm font-semibold text-slate-900">
+              Compare with a home equity loan or HELOC
+            </div>
+            <div className="mt-1 text-xs text-slate-500">
+              Keep the current mortgage and borrow the {formatCurrency(adjustedCashOut)} on a second
+              lien instead.
+            </div>
+          </div>
+          <label className="flex items-center gap-3">
+            <input
+              type="checkbox"
+              checked={compareOptions}
+              onChange={e => setCompareOptions(e.target.checked)}
+              className="h-4 w-4 accent-navy-900"
+            />
+            <span className="text-sm font-medium text-slate-800">Show comparison</span>
+          </label>
+        </div>
+
+        {compareOptions ? (
+          <>
+            <div className="mt-4 grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              <NumberInput
+                id="existingRate"
+                label="Current Mortgage Rate"
+                value={existingRatePercent}
+                onChange={setExistingRatePercent}
+                min={0}
+                step={0.01}
+                suffix="%"
+              />
+              <NumberInput
+                id="existingRemainingYears"
+                label="Years Remaining"
+                value={existingRemainingYears}
+                onChange={setExistingRemainingYears}
+                min={1}
+                step={1}
+                suffix="yrs"
+              />
+              <NumberInput
+                id="homeEquityRate"
+                label="Home Equity Loan Rate"
+                value={homeEquityRatePercent}
+                onChange={setHomeEquityRatePercent}
+                min={0}
+                step={0.01}
+                suffix="%"
+              />
+              <NumberInput
+                id="homeEquityTerm"
+                label="Home Equity Loan Term"
+                value={homeEquityTermYears}
+                onChange={setHomeEquityTermYears}
+                min={1}
+                step={1}
+                suffix="yrs"
+              />
+              <NumberInput
+                id="helocRate"
+                label="HELOC Rate"
+                value={helocRatePercent}
+                onChange={setHelocRatePercent}
+                min={0}
+                step={0.01}
+                suffix="%"
+                helper="Variable; assumed to hold for the horizon."
+              />
+              <NumberInput
+                id="helocDraw"
+                label="HELOC Draw Period"
+                value={helocDrawYears}
+                onChange={setHelocDrawYears}
+                min={0}
+                step={1}
+                suffix="yrs"
+                helper="Interest only."
+              />
+              <NumberInput
+                id="helocRepayment"
+                label="HELOC Repayment Period"
+                value={helocRepaymentYears}
+                onChange={setHelocRepaymentYears}
+                min={1}
+                step={1}
+                suffix="yrs"
+              />
+              <NumberInput
+                id="horizon"
+                label="Horizon"
+                value={horizonYears}
+                onChange={setHorizonYears}
+                min={1}
+                step={1}
+                suffix="yrs"
+              />
+            </div>
+
+            <div className="mt-4 grid gap-4 sm:grid-cols-3">
+              {comparison.options.map(option => {
+                const lowest = option.totalInterest === comparison.lowestInterest
+                const rows = [
+                  { label: 'Blended rate', value: `${option.blendedRatePercent.toFixed(3)}%` },
+                  {
+                    label: 'First lien payment',
+                    value: formatCurrency(option.firstLienPayment)
+                  },
+                  {
+                    label: 'Second lien payment',
+                    value:
+                      option.secondLienPayment > 0 ? formatCurrency(option.secondLienPayment) : '—'
+                  },
+                  {
+                    label: `Interest over ${horizon} yrs`,
+                    value: formatCurrency(option.totalInterest)
+                  },
+                  {
+                    label: `Owed after ${horizon} yrs`,
+                    value: formatCurrency(option.balanceAtHorizon)
+                  },
+                  { label: 'Combined LTV', value: `${option.combinedLtvPercent.toFixed(1)}%` }
+                ]
+                return (
+                  <div
+                    key={option.option}
+                    className={
+                      lowest
+                        ? 'rounded-2xl border border-emerald-300 bg-emerald-50 p-4'
+                        : 'rounded-2xl border border-slate-200 bg-slate-50 p-4'
+                    }
+                  >
+                    <div className="flex items-center justify-between text-xs font-semibold uppercase tracking-wide text-slate-500">
+                      {CASH_OUT_OPTION_LABELS[option.option]}
+                      {lowest ? <span className="text-emerald-700">Least interest</span> : null}
+                    </div>
+                    <div className="mt-1 text-lg font-semibold text-slate-900">
+                      {formatCurrency(option.monthlyPayment)}/mo
+                    </div>
+                    <div className="mt-0.5 text-xs text-slate-500">
+                      {option.monthlyPaymentAfterDraw !== null
+                        ? `${formatCurrency(option.monthlyPaymentAfterDraw)}/mo after the ${helocDrawYears}-year draw period`
+                        : 'Total monthly payment'}
+                    </div>
+                    <div className="mt-3 grid gap-1 text-xs text-slate-600">
+                      {rows.map(row => (
+                        <div key={row.label} className="flex items-center justify-between">
+                          <span>{row.label}</span>
+                          <span className="font-semibold text-slate-900">{row.value}</span>
+                        </div>
+                      ))}
+                    </div>
+                    {option.option !== 'cash-out-refi' &&
+                    option.combinedLtvPercent > SECOND_LIEN_MAX_CLTV_PERCENT ? (
+                      <div className="mt-2 text-xs text-amber-700">
+                        Most lenders cap second liens at {SECOND_LIEN_MAX_CLTV_PERCENT}% combined
+                        LTV.
+                      </div>
+                    ) : null}
+                  </div>
+                )
+              })}
+            </div>
+
+            <div className="mt-4 rounded-2xl border border-slate-200 bg-slate-50 p-4 text-xs text-slate-600">
+              Principal &amp; interest only, without closing costs. The refinance uses the rate and
+              term above; the HELOC is fully drawn at closing. Compare the amount still owed as well
+              as the interest: a longer term lowers the payment but repays less principal.
+            </div>
+          </>
+        ) : null}
+      </section>
     </div>
   )
 }
@@ -0,0 +1,153 @@
+import type { ClosingCostEstimate, ClosingCostItems } from '../finance/closingCosts'
+
+const currencyFormatter = new Intl.NumberFormat('en-US', {
+  style: 'currency',
+  currency: 'USD',
+  maximumFractionDigits: 0
+})
+
+function formatCurrency(value: number) {
+  if (!Number.isFinite(value)) return '$0'
+  return currencyFormatter.format(Math.max(0, Math.round(value)))
+}
+
+function clampNonNegative(n: number) {
+  return Number.isFinite(n) ? Math.max(0, n) : 0
+}
+
+type ItemField = {
+  key: keyof ClosingCostItems
+  label: string
+  prefix?: string
+  suffix?: string
+  step?: number
+}
+
+const ITEM_FIELDS: ItemField[] = [
+  { key: 'originationPercent', label: 'Origination', suffix: '%', step: 0.125 },
+  { key: 'discountPoints', label: 'Discount Points', suffix: 'pts', step: 0.125 },
+  { key: 'appraisalFee', label: 'Appraisal', prefix: '$', step: 25 },
+  { key: 'titleFees', label: 'Title & Settlement', prefix: '$', step: 50 },
+  { key: 'recordingFees', label: 'Recording Fees', prefix: '$', step: 10 },
+  { key: 'transferTaxPercent', label: 'Transfer Taxes', suffix: '% of price', step: 0.05 },
+  { key: 'prepaidInterestDays', label: 'Prepaid Interest', suffix: 'days', step: 1 },
+  { key: 'insurancePremiumMonths', label: 'Insurance Premium', suffix: 'mo', step: 1 },
+  { key: 'taxReserveMonths', label: 'Tax Reserves', suffix: 'mo', step: 1 },
+  { key: 'insuranceReserveMonths', label: 'Insurance Reserves', suffix: 'mo', step: 1 }
+]
+
+type ClosingCostEstimatorProps = {
+  items: ClosingCostItems
+  onChange: (items: ClosingCostItems) => void
+  estimate: ClosingCostEstimate
+  /** Fields that do not apply to this transaction, e.g. transfer taxes on a refinance */
+  hiddenFields?: (keyof ClosingCostItems)[]
+}
+
+/**
+ * Editable closing cost items next to a Loan Estimate style breakdown. Shared by the purchase and
+ * refinance calculators; the caller owns the items and computes the estimate.
+ */
+export function ClosingCostEstimator({
+  items,
+  onChange,
+  estimate,
+  hiddenFields = []
+}: ClosingCostEstimatorProps) {
+  const fields = ITEM_FIELDS.filter(field => !hiddenFields.includes(field.key))
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-2">
+      <div className="grid content-start gap-4 sm:grid-cols-2">
+        {fields.map(field => (
+          <label key={field.key} className="block">
+            <div className="text-sm font-medium text-[color:var(--mc-text)]/85">{field.label}</div>
+            <div className="mt-2 flex items-center rounded-xl border border-[var(--mc-input-border)] bg-[var(--mc-input-bg)] shadow-sm focus-within:border-[var(--mc-primary)] focus-within:ring-2 focus-within:ring-[var(--mc-ring)]">
+              {field.prefix ? (
+                <span className="select-none pl-3 text-sm font-semibold text-[var(--mc-muted)]">
+                  {field.prefix}
+                </span>
+              ) : null}
+              <input
+                type="number"
+                inputMode="decimal"
+                min={0}
+                step={field.step}
+                value={Number.isFinite(items[field.key]) ? items[field.key] : 0}
+                onChange={e =>
+                  onChange({ ...items, [field.key]: clampNonNegative(Number(e.target.value)) })
+                }
+                className="w-full bg-transparent px-3 py-2.5 text-sm font-medium text-[var(--mc-text)] outline-none"
+                aria-label={field.label}
+              />
+              {field.suffix ? (
+                <span className="select-none whitespace-nowrap pr-3 text-sm font-semibold text-[var(--mc-muted)]">
+                  {field.suffix}
+                </span>
+              ) : null}
+            </div>
+          </label>
+        ))}
+      </div>
+
+      <div className="overflow-hidden rounded-2xl border border-[var(--mc-border)]">
+        <table className="w-full border-collapse text-left text-sm">
+          <tbody className="bg-[var(--mc-surface)]">
+            {estimate.sections.map(section => (
+              <SectionRows key={section.key} section={section} />
+            ))}
+            <tr className="border-t border-[var(--mc-border)] bg-[var(--mc-surface-muted)]">
+              <td className="px-4 py-2 text-xs font-semibold uppercase tracking-wide text-[var(--mc-muted)]">
+                D. Total Loan Costs (A + B + C)
+              </td>
+              <td className="px-4 py-2 text-right font-semibold text-[var(--mc-text)]">
+                {formatCurrency(estimate.loanCosts)}
+              </td>
+            </tr>
+            <tr className="bg-[var(--mc-surface-muted)]">
+              <td className="px-4 py-2 text-xs font-semibold uppercase tracking-wide text-[var(--mc-muted)]">
+                I. Total Other Costs (E + F + G)
+              </td>
+              <td className="px-4 py-2 text-right font-semibold text-[var(--mc-text)]">
+                {formatCurrency(estimate.otherCosts)}
+              </td>
+            </tr>
+            <tr className="border-t border-[var(--mc-border)] bg-[var(--mc-surface-muted)]">
+              <td className="px-4 py-3 text-xs font-semibold uppercase tracking-wide text-[var(--mc-text)]">
+                J. Total Closing Costs
+              </td>
+              <td className="px-4 py-3 text-right text-base font-semibold text-[var(--mc-text)]">
+                {formatCurrency(estimate.total)}
+              </td>
+            </tr>
+          </tbody>
+        </table>
+      </div>
+    </div>
+  )
+}
+
+function SectionRows({ section }: { section: ClosingCostEstimate['sections'][number] }) {
+  return (
+    <>
+      <tr className="border-t border-[var(--mc-border)] first:border-t-0">
+        <td className="px-4 pb-1 pt-3 text-xs font-semibold uppercase tracking-wide text-[var(--mc-muted)]">
+          {section.key}. {section.label}
+        </td>
+        <td className="px-4 pb-1 pt-3 text-right font-semibold text-[var(--mc-text)]">
+          {formatCurrency(section.total)}
+        </td>
+      </tr>
+      {section.lines.map(line => (
+        <tr key={line.label}>
+          <td className="px-4 py-1 pl-8 text-[color:var(--mc-text)]/80">{line.label}</td>
+          <td className="px-4 py-1 text-right text-[color:var(--mc-text)]/80">
+            {formatCurrency(line.amount)}
+          </td>
+        </tr>
+      ))}
+    </>
+  )
+}
+
+
@@ -1,7 +1,52 @@
 import { useEffect, useId, useMemo, useState } from 'react'
-import { Cell, Pie, PieChart, ResponsiveContainer, Sector, Tooltip } from 'recharts'
+import { Plus, Trash2 } from 'lucide-react'
+import {
+  Area,
+  CartesianGrid,
+  Cell,
+  ComposedChart,
+  Line,
+  Pie,
+  PieChart,
+  ReferenceLine,
+  ResponsiveContainer,
+  Sector,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts'
+import { ClosingCostEstimator } from './ClosingCostEstimator'
 import { CHART_ANIMATION, CyberpunkTooltip, renderCyberpunkDefs } from './charts/cyberpunk'
 import { useEmbedTheme } from '../embed/ThemeProvider'
+import {
+  buildAmortizationSchedule,
+  buildBiweeklySchedule,
+  compareSchedules,
+  hasExtraPayments,
+  summarizeByYear
+} from '../finance/amortization'
+import { calculateApr } from '../finance/apr'
+import {
+  ARM_PRODUCTS,
+  type ArmProduct,
+  INDEX_PATHS,
+  type IndexPathKind,
+  getArmProduct,
+  projectArm
+} from '../finance/arm'
+import {
+  type ClosingCostItems,
+  DEFAULT_PURCHASE_CLOSING_COSTS,
+  estimateClosingCosts
+} from '../finance/closingCosts'
+import { PMI_AUTOMATIC_TERMINATION_LTV, PMI_REQUEST_REMOVAL_LTV, calculatePmi } from '../finance/pmi'
+import {
+  LOAN_PROGRAMS,
+  type LoanProgram,
+  type VaUsage,
+  calculateAnnualInsurance,
+  calculateProgramFinancing
+} from '../finance/programs'
 import { hexToRgba } from '../embed/color'
 
 const currencyFormatter = new Intl.NumberFormat('en-US', {
@@ -29,25 +74,6 @@ function clampNonNegative(n: number) {
   return Number.isFinite(n) ? Math.max(0, n) : 0
 }
 
-function calculateMonthlyPrincipalAndInterest(
-  principal: number,
-  annualRatePercent: number,
-  termYears: number
-) {
-  const P = clampNonNegative(principal)
-  const years = clampNonNegative(termYears)
-  const n = Math.round(years * 12)
-  if (P === 0 || n === 0) return 0
-
-  const annualRate = clampNonNegative(annualRatePercent) / 100
-  const r = annualRate / 12
-
-  if (r === 0) return P / n
-
-  const pow = Math.pow(1 + r, n)
-  return (P * r * pow) / (pow - 1)
-}
-
 type CurrencyFieldProps = {
   id: string
   label: string
@@ -148,6 +174,97 @@ function formatMonthly(value: number) {
   return currencyFormatter.format(Math.max(0, Math.round(value)))
 }
 
+function formatAxisCurrency(value: number) {
+  return `$${Math.round(value).toLocaleString('en-US')}`
+}
+
+// First payment defaults to the first of next month, as with a typical closing.
+function defaultFirstPaymentMonth() {
+  const d = new Date()
+  const next = new Date(d.getFullYear(), d.getMonth() + 1, 1)
+  return `${next.getFullYear()}-${String(next.getMonth() + 1).padStart(2, '0')}`
+}
+
+function formatPaymentDate(firstPaymentMonth: string, paymentNumber: number) {
+  const match = /^(\d{4})-(\d{2})$/.exec(firstPaymentMonth)
+  if (!match || paymentNumber < 1) return `Month ${paymentNumber}`
+  const date = new Date(Number(match[1]), Number(match[2]) - 1 + paymentNumber - 1, 1)
+  return date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' })
+}
+
+function formatDuration(months: number) {
+  const m = Math.max(0, Math.round(months))
+  const years = Math.floor(m / 12)
+  const rest = m % 12
+  if (years === 0) return `${rest} mo`
+  return rest === 0 ? `${years} yrs` : `${years} yrs ${rest} mo`
+}
+
+function parseIndexPath(raw: string) {
+  return raw
+    .split(/[\s,]+/)
+    .map(part => Number(part))
+    .filter(n => Number.isFinite(n) && n >= 0)
+}
+
+type RateType = 'fixed' | 'arm'
+
+type PaymentStructure = 'standard' | 'interest-only' | 'biweekly'
+
+type OneTimePaymentInput = {
+  id: number
+  month: number
+  amount: number
+}
+
+type ScheduleView = 'monthly' | 'yearly'
+
+type ScheduleTableRow = {
+  key: string
+  label: string
+  payment: number
+  principal: number
+  extraPrincipal: number
+  interest: number
+  balance: number
+}
+
+function ScheduleViewToggle({
+  value,
+  onChange
+}: {
+  value: ScheduleView
+  onChange: (v: ScheduleView) => void
+}) {
+  const options: { key: ScheduleView; label: string }[] = [
+    { key: 'yearly', label: 'Yearly' },
+    { key: 'monthly', label: 'Monthly' }
+  ]
+
+  return (
+    <div className="inline-flex rounded-xl border border-[var(--mc-border)] bg-[var(--mc-surface-muted)] p-1">
+      {options.map(opt => {
+        const isActive = opt.key === value
+        return (
+          <button
+            key={opt.key}
+            type="button"
+            onClick={() => onChange(opt.key)}
+            className={[
+              'rounded-lg px-3 py-1.5 text-xs font-semibold transition',
+              isActive
+                ? 'bg-[var(--mc-primary)] text-[var(--mc-primary-contrast)] shadow-sm'
+                : 'text-[var(--mc-muted)] hover:text-[var(--mc-text)]'
+            ].join(' ')}
+          >
+            {opt.label}
+          </button>
+        )
+      })}
+    </div>
+  )
+}
+
 export function PurchaseCalculator() {
   const theme = useEmbedTheme()
   const [homePrice, setHomePrice] = useState(400_000)
@@ -156,39 +273,390 @@ export function PurchaseCalculator() {
   const [loanTermYears, setLoanTermYears] = useState(30)
   const [annualPropertyTax, setAnnualPropertyTax] = useState(4_000)
   const [annualHomeInsurance, setAnnualHomeInsurance] = useState(1_200)
+  const [creditScore, setCreditScore] = useState(740)
+  const [loanProgram, setLoanProgram] = useState<LoanProgram>('conventional')
+  const [vaUsage, setVaUsage] = useState<VaUsage>('first')
+  const [vaDisabilityExempt, setVaDisabilityExempt] = useState(false)
+
+  // Adjustable rate
+  const [rateType, setRateType] = useState<RateType>('fixed')
+  const [armProduct, setArmProduct] = useState<ArmProduct>('5/6')
+  const [armInitialRate, setArmInitialRate] = useState(5.875)
+  const [armIndex, setArmIndex] = useState(4.3)
+  const [armMargin, setArmMargin] = useState(2.75)
+  const [armCaps, setArmCaps] = useState(() => getArmProduct('5/6').defaultCaps)
+  const [indexPath, setIndexPath] = useState<IndexPathKind>('flat')
+  const [risingIndexPerYear, setRisingIndexPerYear] = useState(0.5)
+  const [customIndexText, setCustomIndexText] = useState('4.5, 5, 5.5, 6')
+
+  // Closing costs
+  const [closingCostItems, setClosingCostItems] = useState<ClosingCostItems>(
+    DEFAULT_PURCHASE_CLOSING_COSTS
+  )
+
+  // Payment structure
+  const [paymentStructure, setPaymentStructure] = useState<PaymentStructure>('standard')
+  const [interestOnlyYears, setInterestOnlyYears] = useState(10)
+
+  function selectRateType(next: RateType) {
+    setRateType(next)
+    // Biweekly plans are modeled on fixed-rate loans only.
+    if (next === 'arm') setPaymentStructure(s => (s === 'biweekly' ? 'standard' : s))
+  }
+
+  function selectArmProduct(key: ArmProduct) {
+    setArmProduct(key)
+    setArmCaps(getArmProduct(key).defaultCaps)
+  }
+  const [firstPaymentMonth, setFirstPaymentMonth] = useState(defaultFirstPaymentMonth)
+
+  // Prepayments
+  const [extraMonthly, setExtraMonthly] = useState(0)
+  const [extraAnnual, setExtraAnnual] = useState(0)
+  const [extraAnnualMonth, setExtraAnnualMonth] = useState(12)
+  const [oneTimePayments, setOneTimePayments] = useState<OneTimePaymentInput[]>([])
+
+  function addOneTimePayment() {
+    setOneTimePayments(list => [
+      ...list,
+      { id: Math.max(0, ...list.map(p => p.id)) + 1, month: 12, amount: 10_000 }
+    ])
+  }
+
+  function updateOneTimePayment(id: number, patch: Partial<Omit<OneTimePaymentInput, 'id'>>) {
+    setOneTimePayments(list => list.map(p => (p.id === id ? { ...p, ...patch } : p)))
+  }
+
+  function removeOneTimePayment(id: number) {
+    setOneTimePayments(list => list.filter(p => p.id !== id))
+  }
 
   const {
     loanAmount,
     monthlyPI,
     monthlyTax,
     monthlyInsurance,
-    totalMonthlyPayment
+    monthlyMortgageInsurance,
+    mortgageInsuranceLabel,
+    pmi,
+    programInsurance,
+    financing,
+    armProjection,
+    standardSchedule,
+    biweeklySchedule,
+    totalMonthlyPayment,
+    schedule,
+    baselineSchedule,
+    hasPrepayments
   } = useMemo(() => {
-    const loan = Math.max(0, homePrice - downPayment)
-    const pi = calculateMonthlyPrincipalAndInterest(loan, interestRatePercent, loanTermYears)
+    const programFinancing = calculateProgramFinancing({
+      program: loanProgram,
+      homePrice,
+      downPayment,
+      termYears: loanTermYears,
+      vaUsage,
+      vaDisabilityExempt
+    })
+    const loan = programFinancing.loanAmount
+    const extraPayments = {
+      monthly: extraMonthly,
+      annual: extraAnnual,
+      annualMonth: extraAnnualMonth,
+      oneTime: oneTimePayments.map(p => ({ month: p.month, amount: p.amount }))
+    }
+    const prepaying = hasExtraPayments(extraPayments)
+    const ioMonths =
+      paymentStructure === 'interest-only' ? Math.round(clampNonNegative(interestOnlyYears) * 12) : 0
+    const armInput = {
+      principal: loan,
+      termYears: loanTermYears,
+      product: armProduct,
+      initialRatePercent: armInitialRate,
+      indexPercent: armIndex,
+      marginPercent: armMargin,
+      caps: armCaps,
+      indexPath,
+      risingIndexPerYear,
+      customIndexPath: parseIndexPath(customIndexText),
+      interestOnlyMonths: ioMonths
+    }
+
+    let baseline
+    let amortization
+    let standard
+    let arm = null
+    let biweekly = null
+    if (rateType === 'arm') {
+      const armBaseline = projectArm(armInput)
+      arm = prepaying ? projectArm({ ...armInput, extraPayments }) : armBaseline
+      baseline = armBaseline.schedule
+      amortization = arm.schedule
+      standard = ioMonths > 0 ? projectArm({ ...armInput, interestOnlyMonths: 0 }).schedule : baseline
+    } else {
+      const fixedInput = {
+        principal: loan,
+        annualRatePercent: interestRatePercent,
+        termYears: loanTermYears,
+        interestOnlyMonths: ioMonths
+      }
+      baseline = buildAmortizationSchedule(fixedInput)
+      amortization = prepaying
+        ? buildAmortizationSchedule({ ...fixedInput, extraPayments })
+        : baseline
+      standard =
+        ioMonths > 0 ? buildAmortizationSchedule({ ...fixedInput, interestOnlyMonths: 0 }) : baseline
+      if (paymentStructure === 'biweekly') biweekly = buildBiweeklySchedule(fixedInput)
+    }
+    const pi = amortization.monthlyPayment
     const tax = clampNonNegative(annualPropertyTax) / 12
     const ins = clampNonNegative(annualHomeInsurance) / 12
-    const total = pi + tax + ins
+    // Conventional PMI is priced by credit score; government programs carry their own fees.
+    const conventionalPmi = calculatePmi({
+      loanAmount: loanProgram === 'conventional' ? loan : 0,
+      propertyValue: homePrice,
+      creditScore,
+      schedule: amortization,
+      scheduledSchedule: baseline
+    })
+    const annualInsurance = calculateAnnualInsurance(programFinancing, amortization)
+    const mi =
+      loanProgram === 'conventional'
+        ? conventionalPmi.monthlyPremium
+        : annualInsurance.monthlyPremium
+    const total = pi + tax + ins + mi
 
     return {
       loanAmount: loan,
       monthlyPI: pi,
       monthlyTax: tax,
       monthlyInsurance: ins,
-      totalMonthlyPayment: total
+      monthlyMortgageInsurance: mi,
+      mortgageInsuranceLabel: programFinancing.annualInsuranceLabel ?? 'Mortgage Insurance',
+      pmi: conventionalPmi,
+      programInsurance: annualInsurance,
+      financing: programFinancing,
+      armProjection: arm,
+      standardSchedule: standard,
+      biweeklySchedule: biweekly,
+      totalMonthlyPayment: total,
+      schedule: amortization,
+      baselineSchedule: baseline,
+      hasPrepayments: prepaying
     }
-  }, [annualHomeInsurance, annualPropertyTax, downPayment, homePrice, interestRatePercent, loanTermYears])
+  }, [
+    annualHomeInsurance,
+    annualPropertyTax,
+    armCaps,
+    armIndex,
+    armInitialRate,
+    armMargin,
+    armProduct,
+    creditScore,
+    customIndexText,
+    downPayment,
+    extraAnnual,
+    extraAnnualMonth,
+    extraMonthly,
+    homePrice,
+    indexPath,
+    interestOnlyYears,
+    interestRatePercent,
+    loanProgram,
+    loanTermYears,
+    oneTimePayments,
+    paymentStructure,
+    rateType,
+    risingIndexPerYear,
+    vaDisabilityExempt,
+    vaUsage
+  ])
+
+  const prepaymentSavings = useMemo(
+    () => compareSchedules(baselineSchedule, schedule),
+    [baselineSchedule, schedule]
+  )
+
+  const closingCosts = useMemo(
+    () =>
+      estimateClosingCosts(closingCostItems, {
+        loanAmount,
+        salePrice: homePrice,
+        annualRatePercent: rateType === 'arm' ? armInitialRate : interestRatePercent,
+        annualPropertyTax,
+        annualInsurance: annualHomeInsurance
+      }),
+    [
+      annualHomeInsurance,
+      annualPropertyTax,
+      armInitialRate,
+      closingCostItems,
+      homePrice,
+      interestRatePercent,
+      loanAmount,
+      rateType
+    ]
+  )
+  const cashToClose = financing.downPayment + closingCosts.total
+
+  // APR on the scheduled payments (without prepayments) plus monthly mortgage insurance, which is
+  // itself a finance charge.
+  const apr = useMemo(() => {
+    const prepaidFinanceCharges = closingCosts.prepaidFinanceCharges + financing.upfrontFee
+    if (prepaidFinanceCharges <= 0) return null
+    const payments = baselineSchedule.rows.map(row => {
+      let mortgageInsurance = 0
+      if (loanProgram === 'conventional') {
+        if (row.month <= (pmi.automaticTerminationMonth ?? 0)) {
+          mortgageInsurance = pmi.monthlyPremium
+        }
+      } else if (row.month <= programInsurance.premiumMonths) {
+        mortgageInsurance =
+          programInsurance.monthlyPremiumByYear[Math.floor((row.month - 1) / 12)] ?? 0
+      }
+      return row.payment + mortgageInsurance
+    })
+    return calculateApr({ loanAmount, prepaidFinanceCharges, payments })
+  }, [baselineSchedule, closingCosts, financing, loanAmount, loanProgram, pmi, programInsurance])
+
+  const structureComparison = useMemo(() => {
+    if (paymentStructure === 'interest-only') {
+      const ioMonths = Math.min(baselineSchedule.rows.length, Math.round(interestOnlyYears * 12))
+      return {
+        kind: 'interest-only' as const,
+        interestOnlyMonths: ioMonths,
+        interestOnlyPayment: baselineSchedule.rows[0]?.scheduledPayment ?? 0,
+        amortizingPayment: baselineSchedule.rows[ioMonths]?.scheduledPayment ?? 0,
+        totalInterest: baselineSchedule.totalInterest,
+        payoffMonth: baselineSchedule.payoffMonth,
+        ...compareSchedules(standardSchedule, baselineSchedule)
+      }
+    }
+    if (paymentStructure === 'biweekly' && biweeklySchedule) {
+      return {
+        kind: 'biweekly' as const,
+        halfPayment: biweeklySchedule.halfPayment,
+        payments: biweeklySchedule.payments,
+        totalInterest: biweeklySchedule.totalInterest,
+        payoffMonth: biweeklySchedule.payoffMonth,
+        monthsSaved: standardSchedule.payoffMonth - biweeklySchedule.payoffMonth,
+        interestSaved: standardSchedule.totalInterest - biweeklySchedule.totalInterest
+      }
+    }
+    return null
+  }, [baselineSchedule, biweeklySchedule, interestOnlyYears, paymentStructure, standardSchedule])
+
+  // Worst-case and fixed-rate schedules on the same loan, for explaining payment shock.
+  const armComparison = useMemo(() => {
+    if (!armProjection) return null
+    const worstCase = projectArm({
+      principal: loanAmount,
+      termYears: loanTermYears,
+      product: armProduct,
+      initialRatePercent: armInitialRate,
+      indexPercent: armIndex,
+      marginPercent: armMargin,
+      caps: armCaps,
+      indexPath: 'worst-case'
+    })
+    const fixed = buildAmortizationSchedule({
+      principal: loanAmount,
+      annualRatePercent: interestRatePercent,
+      termYears: loanTermYears
+    })
+    const chart = summarizeByYear(fixed.rows).map(row => {
+      const month = (row.year - 1) * 12 + 1
+      return {
+        year: row.year,
+        projected: armProjection.schedule.rows[month - 1]?.scheduledPayment ?? 0,
+        worstCase: worstCase.schedule.rows[month - 1]?.scheduledPayment ?? 0,
+        fixed: fixed.monthlyPayment
+      }
+    })
+    return {
+      worstCase,
+      fixed,
+      chart
+    }
+  }, [
+    armCaps,
+    armIndex,
+    armInitialRate,
+    armMargin,
+    armProduct,
+    armProjection,
+    interestRatePercent,
+    loanAmount,
+    loanTermYears
+  ])
+
+  const balanceComparisonData = useMemo(() => {
+    const baselineYears = summarizeByYear(baselineSchedule.rows)
+    const acceleratedYears = summarizeByYear(schedule.rows)
+    return baselineYears.map(row => ({
+      year: row.year,
+      baseline: row.balance,
+      accelerated: acceleratedYears[row.year - 1]?.balance ?? 0
+    }))
+  }, [baselineSchedule, schedule])
+
+  const [scheduleView, setScheduleView] = useState<ScheduleView>('yearly')
+  const scheduleYears = useMemo(() => summarizeByYear(schedule.rows), [schedule])
+
+  // First payment where more of the payment goes to principal than to interest.
+  const principalOvertakesMonth = useMemo(
+    () => schedule.rows.find(row => row.principal >= row.interest)?.month ?? null,
+    [schedule]
+  )
+
+  const scheduleTableRows = useMemo<ScheduleTableRow[]>(
+    () =>
+      scheduleView === 'monthly'
+        ? schedule.rows.map(row => ({
+            key: `m-${row.month}`,
+            label: `Month ${row.month} · ${formatPaymentDate(firstPaymentMonth, row.month)}`,
+            payment: row.payment,
+            principal: row.principal,
+            extraPrincipal: row.extraPrincipal,
+            interest: row.interest,
+            balance: row.balance
+          }))
+        : scheduleYears.map(row => ({
+            key: `y-${row.year}`,
+            label: `Year ${row.year}`,
+            payment: row.payment,
+            principal: row.principal,
+            extraPrincipal: row.extraPrincipal,
+            interest: row.interest,
+            balance: row.balance
+          })),
+    [firstPaymentMonth, schedule, scheduleView, scheduleYears]
+  )
+
+  const scheduleChartData = useMemo(
+    () =>
+      scheduleYears.map(row => ({
+        year: row.year,
+        principal: row.principal,
+        interest: row.interest,
+        balance: row.balance
+      })),
+    [scheduleYears]
+  )
 
   const chartData = useMemo(
     () => [
       { name: 'Principal & Interest', value: monthlyPI },
       { name: 'Tax', value: monthlyTax },
-      { name: 'Insurance', value: monthlyInsurance }
+      { name: 'Insurance', value: monthlyInsurance },
+      { name: mortgageInsuranceLabel, value: monthlyMortgageInsurance }
     ],
-    [monthlyPI, monthlyTax, monthlyInsurance]
+    [monthlyPI, monthlyTax, monthlyInsurance, monthlyMortgageInsurance, mortgageInsuranceLabel]
   )
 
   const chartId = `cp-purchase-${useId().replace(/[^a-zA-Z0-9_-]/g, '')}`
+  const scheduleChartId = `${chartId}-schedule`
+  const prepayChartId = `${chartId}-prepay`
+  const armChartId = `${chartId}-arm`
   const [activeSlice, setActiveSlice] = useState<number | null>(null)
 
   const downPaymentPct = homePrice > 0 ? (downPayment / homePrice) * 100 : 0
@@ -199,7 +667,7 @@ export function PurchaseCalculator() {
         <div>
           <div className="text-sm font-semibold text-[var(--mc-text)]">Purchase</div>
           <div className="mt-1 text-sm text-[var(--mc-muted)]">
-            Estimate your monthly payment with taxes and insurance.
+            Estimate your monthly payment with taxes, insurance and PMI.
           </div>
         </div>
         <div className="rounded-xl border border-[var(--mc-border)] bg-[var(--mc-surface-muted)] px-3 py-2 text-xs font-semibold text-[var(--mc-muted)]">
@@ -212,6 +680,21 @@ export function PurchaseCalculator() {
         <section className="rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface)] p-5 shadow-sm">
           <div className="mb-4 text-sm font-semibold text-[var(--mc-text)]">Inputs</div>
           <div className="grid gap-4">
+            <label className="block">
+              <div className="text-sm font-medium text-[color:var(--mc-text)]/85">Loan Program</div>
+              <select
+                value={loanProgram}
+                onChange={e => setLoanProgram(e.target.value as LoanProgram)}
+                className="mt-2 w-full rounded-xl border border-[var(--mc-input-border)] bg-[var(--mc-input-bg)] px-3 py-2.5 text-sm font-medium text-[var(--mc-text)] shadow-sm outline-none focus:border-[var(--mc-primary)] focus:ring-2 focus:ring-[var(--mc-ring)]"
+              >
+                {LOAN_PROGRAMS.map(p => (
+                  <option key={p.key} value={p.key}>
+                    {p.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
             <CurrencyField
               id="homePrice"
               label="Home Price"
@@ -223,13 +706,56 @@ export function PurchaseCalculator() {
               label="Down Payment"
               value={downPayment}
               setValue={setDownPayment}
-              helper={`≈ ${downPaymentPct.toFixed(1)}% down`}
+              helper={
+                financing.downPaymentRaised
+                  ? `≈ ${downPaymentPct.toFixed(1)}% down. Raised to the ${LOAN_PROGRAMS.find(p => p.key === loanProgram)?.label} minimum of ${formatCurrency(financing.minDownPayment)}.`
+                  : `≈ ${downPaymentPct.toFixed(1)}% down`
+              }
             />
 
+            {loanProgram === 'va' ? (
+              <div className="grid gap-4 sm:grid-cols-2">
+                <label className="block">
+                  <div className="text-sm font-medium text-[color:var(--mc-text)]/85">VA Loan Usage</div>
+                  <select
+                    value={vaUsage}
+                    onChange={e => setVaUsage(e.target.value as VaUsage)}
+                    className="mt-2 w-full rounded-xl border border-[var(--mc-input-border)] bg-[var(--mc-input-bg)] px-3 py-2.5 text-sm font-medium text-[var(--mc-text)] shadow-sm outline-none focus:border-[var(--mc-primary)] focus:ring-2 focus:ring-[var(--mc-ring)]"
+                  >
+                    <option value="first">First use</option>
+                    <option value="subsequent">Subsequent use</option>
+                  </select>
+                </label>
+                <label className="flex items-center gap-3 self-end rounded-xl border border-[var(--mc-input-border)] bg-[var(--mc-input-bg)] px-3 py-2.5 shadow-sm">
+                  <input
+                    type="checkbox"
+                    checked={vaDisabilityExempt}
+                    onChange={e => setVaDisabilityExempt(e.target.checked)}
+                    className="h-4 w-4 accent-[var(--mc-primary)]"
+                  />
+                  <span className="text-sm font-medium text-[color:var(--mc-text)]/85">
+                    Service-connected disability (fee exempt)
+                  </span>
+                </label>
+              </div>
+            ) : null}
+
+            <label className="block">
+              <div className="text-sm font-medium text-[color:var(--mc-text)]/85">Rate Type</div>
+              <select
+                value={rateType}
+                onChange={e => selectRateType(e.target.value as RateType)}
+                className="mt-2 w-full rounded-xl border border-[var(--mc-input-border)] bg-[var(--mc-input-bg)] px-3 py-2.5 text-sm font-medium text-[var(--mc-text)] shadow-sm outline-none focus:border-[var(--mc-primary)] focus:ring-2 focus:ring-[var(--mc-ring)]"
+              >
+                <option value="fixed">Fixed rate</option>
+                <option value="arm">Adjustable rate (ARM)</option>
+              </select>
+            </label>
+
             <div className="grid gap-4 sm:grid-cols-2">
               <NumberField
                 id="interestRate"
-                label="Interest Rate"
+                label={rateType === 'arm' ? 'Fixed Rate (comparison)' : 'Interest Rate'}
                 value={interestRatePercent}
                 setValue={setInterestRatePercent}
                 min={0}
@@ -247,6 +773,166 @@ export function PurchaseCalculator() {
               />
             </div>
 
+            <div className="grid gap-4 sm:grid-cols-2">
+              <label className="block">
+                <div className="text-sm font-medium text-[color:var(--mc-text)]/85">
+                  Payment Structure
+                </div>
+                <select
+                  value={paymentStructure}
+                  onChange={e => setPaymentStructure(e.target.value as PaymentStructure)}
+                  className="mt-2 w-full rounded-xl border border-[var(--mc-input-border)] bg-[var(--mc-input-bg)] px-3 py-2.5 text-sm font-medium text-[var(--mc-text)] shadow-sm outline-none focus:border-[var(--mc-primary)] focus:ring-2 focus:ring-[var(--mc-ring)]"
+                >
+                  <option value="standard">Monthly, fully amortizing</option>
+                  <option value="interest-only">Interest-only period</option>
+                  <option value="biweekly" disabled={rateType === 'arm'}>
+                    Biweekly (26 half-payments)
+                  </option>
+                </select>
+              </label>
+              {paymentStructure === 'interest-only' ? (
+                <NumberField
+                  id="interestOnlyYears"
+                  label="Interest-only Period"
+                  value={interestOnlyYears}
+                  setValue={setInterestOnlyYears}
+                  min={1}
+                  step={1}
+                  suffix="yrs"
+                />
+              ) : null}
+            </div>
+
+            {rateType === 'arm' ? (
+              <div className="grid gap-4 rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface-muted)] p-4">
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <label className="block">
+                    <div className="text-sm font-medium text-[color:var(--mc-text)]/85">ARM Product</div>
+                    <select
+                      value={armProduct}
+                      onChange={e => selectArmProduct(e.target.value as ArmProduct)}
+                      className="mt-2 w-full rounded-xl border border-[var(--mc-input-border)] bg-[var(--mc-input-bg)] px-3 py-2.5 text-sm font-medium text-[var(--mc-text)] shadow-sm outline-none focus:border-[var(--mc-primary)] focus:ring-2 focus:ring-[var(--mc-ring)]"
+                    >
+                      {ARM_PRODUCTS.map(p => (
+                        <option key={p.key} value={p.key}>
+                          {p.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <NumberField
+                    id="armInitialRate"
+                    label="Initial Rate"
+                    value={armInitialRate}
+                    setValue={setArmInitialRate}
+                    min={0}
+                    step={0.125}
+                    suffix="%"
+                  />
+                </div>
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <NumberField
+                    id="armIndex"
+                    label="Index"
+                    value={armIndex}
+                    setValue={setArmIndex}
+                    min={0}
+                    step={0.01}
+                    suffix="%"
+                  />
+                  <NumberField
+                    id="armMargin"
+                    label="Margin"
+                    value={armMargin}
+                    setValue={setArmMargin}
+                    min={0}
+                    step={0.125}
+                    suffix="%"
+                  />
+                </div>
+                <div className="grid gap-4 sm:grid-cols-3">
+                  <NumberField
+                    id="armInitialCap"
+                    label="Initial Cap"
+                    value={armCaps.initial}
+                    setValue={n => setArmCaps(c => ({ ...c, initial: n }))}
+                    step={0.5}
+                    suffix="%"
+                  />
+                  <NumberField
+                    id="armPeriodicCap"
+                    label="Periodic Cap"
+                    value={armCaps.periodic}
+                    setValue={n => setArmCaps(c => ({ ...c, periodic: n }))}
+                    step={0.5}
+                    suffix="%"
+                  />
+                  <NumberField
+                    id="armLifetimeCap"
+                    label="Lifetime Cap"
+                    value={armCaps.lifetime}
+                    setValue={n => setArmCaps(c => ({ ...c, lifetime: n }))}
+                    step={0.5}
+                    suffix="%"
+                  />
+                </div>
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <label className="block">
+                    <div className="text-sm font-medium text-[color:var(--mc-text)]/85">Index Path</div>
+                    <select
+                      value={indexPath}
+                      onChange={e => setIndexPath(e.target.value as IndexPathKind)}
+                      className="mt-2 w-full rounded-xl border border-[var(--mc-input-border)] bg-[var(--mc-input-bg)] px-3 py-2.5 text-sm font-medium text-[var(--mc-text)] shadow-sm outline-none focus:border-[var(--mc-primary)] focus:ring-2 focus:ring-[var(--mc-ring)]"
+                    >
+                      {INDEX_PATHS.map(p => (
+                        <option key={p.key} value={p.key}>
+                          {p.label}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  {indexPath === 'rising' ? (
+                    <NumberField
+                      id="risingIndex"
+                      label="Index Rise per Year"
+                      value={risingIndexPerYear}
+                      setValue={setRisingIndexPerYear}
+                      step={0.25}
+                      suffix="%"
+                    />
+                  ) : null}
+                  {indexPath === 'custom' ? (
+                    <label className="block">
+                      <div className="text-sm font-medium text-[color:var(--mc-text)]/85">
+                        Index at Each Adjustment
+                      </div>
+                      <input
+                        value={customIndexText}
+                        onChange={e => setCustomIndexText(e.target.value)}
+                        className="mt-2 w-full rounded-xl border border-[var(--mc-input-border)] bg-[var(--mc-input-bg)] px-3 py-2.5 text-sm font-medium text-[var(--mc-text)] shadow-sm outline-none focus:border-[var(--mc-primary)] focus:ring-2 focus:ring-[var(--mc-ring)]"
+                        placeholder="4.5, 5, 5.5"
+                        aria-label="Index at Each Adjustment"
+                      />
+                      <div className="mt-1 text-xs text-[var(--mc-muted)]">
+                        Comma-separated %; the last value carries forward.
+                      </div>
+                    </label>
+                  ) : null}
+                </div>
+              </div>
+            ) : null}
+
+            <label className="block">
+              <div className="text-sm font-medium text-[color:var(--mc-text)]/85">First Payment</div>
+              <input
+                type="month"
+                value={firstPaymentMonth}
+                onChange={e => setFirstPaymentMonth(e.target.value || defaultFirstPaymentMonth())}
+                className="mt-2 w-full rounded-xl border border-[var(--mc-input-border)] bg-[var(--mc-input-bg)] px-3 py-2.5 text-sm font-medium text-[var(--mc-text)] shadow-sm outline-none focus:border-[var(--mc-primary)] focus:ring-2 focus:ring-[var(--mc-ring)]"
+                aria-label="First Payment"
+              />
+            </label>
+
             <div className="grid gap-4 sm:grid-cols-2">
               <CurrencyField
                 id="propertyTax"
@@ -262,6 +948,22 @@ export function PurchaseCalculator() {
               />
             </div>
 
+            {loanProgram === 'conventional' ? (
+              <NumberField
+                id="creditScore"
+                label="Credit Score"
+                value={creditScore}
+                setValue={setCreditScore}
+                min={300}
+                step={1}
+                helper={
+                  downPaymentPct < 20
+                    ? 'Used to price PMI for down payments under 20%.'
+                    : 'No PMI with 20% or more down.'
+                }
+              />
+            ) : null}
+
             <div className="rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface-muted)] p-4">
               <div className="text-xs font-semibold uppercase tracking-wide text-[var(--mc-muted)]">
                 Loan Amount
@@ -270,7 +972,9 @@ export function PurchaseCalculator() {
                 {formatCurrency(loanAmount)}
               </div>
               <div className="mt-1 text-xs text-[var(--mc-muted)]">
-                Home price minus down payment.
+                {financing.upfrontFee > 0
+                  ? `${formatCurrency(financing.baseLoanAmount)} base loan + ${formatCurrency(financing.upfrontFee)} ${financing.upfrontFeeLabel} (${financing.upfrontFeePercent}%) financed.`
+                  : 'Home price minus down payment.'}
               </div>
             </div>
           </div>
@@ -287,6 +991,12 @@ export function PurchaseCalculator() {
             <div className="mt-1 text-3xl font-semibold tracking-tight text-[var(--mc-text)]">
               {formatMonthly(totalMonthlyPayment)}
             </div>
+            {apr !== null ? (
+              <div className="mt-1 text-sm text-[var(--mc-muted)]">
+                <span className="font-semibold text-[var(--mc-text)]">{apr.toFixed(3)}% APR</span> ·{' '}
+                {(rateType === 'arm' ? armInitialRate : interestRatePercent).toFixed(3)}% note rate
+              </div>
+            ) : null}
 
             <div className="mt-4 grid gap-3">
               <div className="flex items-center justify-between text-sm">
@@ -332,7 +1042,128 @@ export function PurchaseCalculator() {
                   {formatMonthly(monthlyInsurance)}
                 </div>
               </div>
+              <div className="flex items-center justify-between text-sm">
+                <div className="flex items-center gap-2">
+                  <span
+                    className="h-2.5 w-2.5 rounded-full"
+                    style={{
+                      backgroundImage: `linear-gradient(135deg, ${theme.chart.secondaryFrom} 0%, ${theme.chart.secondaryTo} 100%)`,
+                      boxShadow: `0 0 14px ${hexToRgba(theme.chart.secondaryTo, 0.2)}`
+                    }}
+                  />
+                  <span className="font-medium text-[color:var(--mc-text)]/80">
+                    {mortgageInsuranceLabel}
+                  </span>
+                </div>
+                <div className="font-semibold text-[var(--mc-text)]">
+                  {formatMonthly(monthlyMortgageInsurance)}
+                </div>
+              </div>
+            </div>
+
+            <div className="mt-4 grid gap-2 border-t border-[var(--mc-border)] pt-4 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-[color:var(--mc-text)]/80">Down Payment</span>
+                <span className="font-semibold text-[var(--mc-text)]">
+                  {formatCurrency(financing.downPayment)}
+                </span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-[color:var(--mc-text)]/80">Closing Costs</span>
+                <span className="font-semibold text-[var(--mc-text)]">
+                  {formatCurrency(closingCosts.total)}
+                </span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="font-semibold text-[var(--mc-text)]">Total Cash to Close</span>
+                <span className="text-lg font-semibold text-[var(--mc-text)]">
+                  {formatCurrency(cashToClose)}
+                </span>
+              </div>
             </div>
+
+            {loanProgram === 'conventional' && pmi.monthlyPremium > 0 ? (
+              <div className="mt-4 grid gap-2 border-t border-[var(--mc-border)] pt-4 text-xs">
+                <div className="flex items-center justify-between">
+                  <span className="text-[var(--mc-muted)]">
+                    PMI rate ({pmi.ltvPercent.toFixed(1)}% LTV, {Math.round(creditScore)} score)
+                  </span>
+                  <span className="font-semibold text-[var(--mc-text)]">
+                    {pmi.annualRatePercent.toFixed(2)}%/yr
+                  </span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-[var(--mc-muted)]">
+                    Removal on request ({PMI_REQUEST_REMOVAL_LTV}% LTV)
+                  </span>
+                  <span className="font-semibold text-[var(--mc-text)]">
+                    {pmi.requestRemovalMonth
+                      ? `${formatPaymentDate(firstPaymentMonth, pmi.requestRemovalMonth)} · payment ${pmi.requestRemovalMonth}`
+                      : 'N/A'}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-[var(--mc-muted)]">
+                    Automatic drop-off ({PMI_AUTOMATIC_TERMINATION_LTV}% LTV)
+                  </span>
+                  <span className="font-semibold text-[var(--mc-text)]">
+                    {pmi.automaticTerminationMonth
+                      ? `${formatPaymentDate(firstPaymentMonth, pmi.automaticTerminationMonth)} · payment ${pmi.automaticTerminationMonth}`
+                      : 'N/A'}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-[var(--mc-muted)]">Total PMI until drop-off</span>
+                  <span className="font-semibold text-[var(--mc-text)]">
+                    {formatCurrency(pmi.totalPremiums)}
+                  </span>
+                </div>
+              </div>
+            ) : null}
+
+            {loanProgram === 'fha' || loanProgram === 'usda' ? (
+              <div className="mt-4 grid gap-2 border-t border-[var(--mc-border)] pt-4 text-xs">
+                <div className="flex items-center justify-between">
+                  <span className="text-[var(--mc-muted)]">
+                    {mortgageInsuranceLabel} rate ({financing.baseLtvPercent.toFixed(1)}% LTV)
+                  </span>
+                  <span className="font-semibold text-[var(--mc-text)]">
+                    {financing.annualInsurancePercent.toFixed(2)}%/yr
+                  </span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-[var(--mc-muted)]">Charged for</span>
+                  <span className="font-semibold text-[var(--mc-text)]">
+                    {financing.annualInsuranceMonths === null
+                      ? 'Life of loan'
+                      : `${financing.annualInsuranceMonths / 12} years · through ${formatPaymentDate(firstPaymentMonth, programInsurance.premiumMonths)}`}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-[var(--mc-muted)]">Total {mortgageInsuranceLabel}</span>
+                  <span className="font-semibold text-[var(--mc-text)]">
+                    {formatCurrency(programInsurance.totalPremiums)}
+                  </span>
+                </div>
+                <div className="text-[var(--mc-muted)]">
+                  Re-priced each year on the average balance, so the monthly amount declines.
+                </div>
+              </div>
+            ) : null}
+
+            {loanProgram === 'va' ? (
+              <div className="mt-4 grid gap-2 border-t border-[var(--mc-border)] pt-4 text-xs">
+                <div className="flex items-center justify-between">
+                  <span className="text-[var(--mc-muted)]">VA funding fee</span>
+                  <span className="font-semibold text-[var(--mc-text)]">
+                    {vaDisabilityExempt
+                      ? 'Exempt'
+                      : `${financing.upfrontFeePercent.toFixed(2)}% · ${formatCurrency(financing.upfrontFee)}`}
+                  </span>
+                </div>
+                <div className="text-[var(--mc-muted)]">VA loans carry no monthly mortgage insurance.</div>
+              </div>
+            ) : null}
           </div>
 
           <div className="mt-6 grid gap-6 lg:grid-cols-1">
@@ -401,6 +1232,11 @@ export function PurchaseCalculator() {
                         stroke="rgba(255,255,255,0.35)"
                         strokeWidth={1}
                       />
+                      <Cell
+                        fill={`url(#${chartId}-grad-secondary)`}
+                        stroke="rgba(255,255,255,0.35)"
+                        strokeWidth={1}
+                      />
                     </Pie>
                     <Tooltip
                       formatter={(v: unknown) =>
@@ -420,6 +1256,704 @@ export function PurchaseCalculator() {
           </div>
         </section>
       </div>
+
+      <section className="mt-6 rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface)] p-5 shadow-sm">
+        <div className="mb-4 flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <div className="text-sm font-semibold text-[var(--mc-text)]">Closing costs</div>
+            <div className="mt-1 text-xs text-[var(--mc-muted)]">
+              Estimated fees, prepaids and escrow deposits, grouped as on a Loan Estimate.
+            </div>
+          </div>
+          <div className="text-right">
+            <div className="text-xs font-semibold uppercase tracking-wide text-[var(--mc-muted)]">
+              Cash to Close
+            </div>
+            <div className="text-lg font-semibold text-[var(--mc-text)]">
+              {formatCurrency(cashToClose)}
+            </div>
+            <div className="text-xs text-[var(--mc-muted)]">
+              {formatCurrency(financing.downPayment)} down + {formatCurrency(closingCosts.total)}{' '}
+              closing costs
+            </div>
+          </div>
+        </div>
+        <ClosingCostEstimator
+          items={closingCostItems}
+          onChange={setClosingCostItems}
+          estimate={closingCosts}
+        />
+      </section>
+
+      {structureComparison ? (
+        <section className="mt-6 rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface)] p-5 shadow-sm">
+          <div className="mb-4">
+            <div className="text-sm font-semibold text-[var(--mc-text)]">
+              {structureComparison.kind === 'interest-only'
+                ? 'Interest-only vs standard monthly'
+                : 'Biweekly vs standard monthly'}
+            </div>
+            <div className="mt-1 text-xs text-[var(--mc-muted)]">
+              {structureComparison.kind === 'interest-only'
+                ? 'No principal is repaid during the interest-only period; the loan then amortizes over the remaining term.'
+                : 'Half the monthly payment every two weeks adds up to one extra full payment a year.'}
+            </div>
+          </div>
+
+          <div className="overflow-hidden rounded-2xl border border-[var(--mc-border)]">
+            <table className="w-full border-collapse text-left text-sm">
+              <thead className="bg-[var(--mc-surface-muted)]">
+                <tr className="text-xs font-semibold uppercase tracking-wide text-[var(--mc-muted)]">
+                  <th className="px-4 py-3">Structure</th>
+                  <th className="px-4 py-3">Payment by phase</th>
+                  <th className="px-4 py-3 text-right">Total interest</th>
+                  <th className="px-4 py-3 text-right">Payoff</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-[var(--mc-border)] bg-[var(--mc-surface)]">
+                <tr className="hover:bg-[var(--mc-surface-muted)]">
+                  <td className="px-4 py-3 font-medium text-[var(--mc-text)]">Standard monthly</td>
+                  <td className="px-4 py-3 text-[color:var(--mc-text)]/80">
+                    {formatMonthly(standardSchedule.monthlyPayment)}/mo for the full term
+                  </td>
+                  <td className="px-4 py-3 text-right font-semibold text-[var(--mc-text)]">
+                    {formatCurrency(standardSchedule.totalInterest)}
+                  </td>
+                  <td className="px-4 py-3 text-right text-[color:var(--mc-text)]/80">
+                    {formatPaymentDate(firstPaymentMonth, standardSchedule.payoffMonth)}
+                  </td>
+                </tr>
+                <tr className="hover:bg-[var(--mc-surface-muted)]">
+                  <td className="px-4 py-3 font-medium text-[var(--mc-text)]">
+                    {structureComparison.kind === 'interest-only' ? 'Interest-only' : 'Biweekly'}
+                  </td>
+                  <td className="px-4 py-3 text-[color:var(--mc-text)]/80">
+                    {structureComparison.kind === 'interest-only' ? (
+                      <div className="grid gap-0.5">
+                        <span>
+                          {formatMonthly(structureComparison.interestOnlyPayment)}/mo · months 1–
+                          {structureComparison.interestOnlyMonths}
+                        </span>
+                        {structureComparison.interestOnlyMonths < structureComparison.payoffMonth ? (
+                          <span>
+                            {formatMonthly(structureComparison.amortizingPayment)}/mo · months{' '}
+                            {structureComparison.interestOnlyMonths + 1}–{structureComparison.payoffMonth}
+                          </span>
+                        ) : null}
+                      </div>
+                    ) : (
+                      <span>
+                        {formatMonthly(structureComparison.halfPayment)} every two weeks ·{' '}
+                        {structureComparison.payments} payments
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-right font-semibold text-[var(--mc-text)]">
+                    {formatCurrency(structureComparison.totalInterest)}
+                  </td>
+                  <td className="px-4 py-3 text-right text-[color:var(--mc-text)]/80">
+                    {formatPaymentDate(firstPaymentMonth, structureComparison.payoffMonth)}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          <div className="mt-4 rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface-muted)] p-4 text-sm">
+            {structureComparison.interestSaved >= 0 ? (
+              <span className="font-semibold text-emerald-700">
+                Saves {formatCurrency(structureComparison.interestSaved)} in interest
+                {structureComparison.monthsSaved > 0
+                  ? ` and pays off ${formatDuration(structureComparison.monthsSaved)} sooner`
+                  : ''}
+                .
+              </span>
+            ) : (
+              <span className="font-semibold text-amber-700">
+                Costs {formatCurrency(Math.abs(structureComparison.interestSaved))} more in interest
+                than the standard schedule.
+              </span>
+            )}
+          </div>
+        </section>
+      ) : null}
+
+      {armProjection && armComparison ? (
+        <section className="mt-6 rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface)] p-5 shadow-sm">
+          <div className="mb-4">
+            <div className="text-sm font-semibold text-[var(--mc-text)]">
+              {getArmProduct(armProduct).label} rate projection
+            </div>
+            <div className="mt-1 text-xs text-[var(--mc-muted)]">
+              Rate resets to index + margin (rounded to 1/8%), limited by the caps and floored at the
+              margin.
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface-muted)] p-4">
+              <div className="text-xs font-semibold uppercase tracking-wide text-[var(--mc-muted)]">
+                Initial P&amp;I
+              </div>
+              <div className="mt-1 text-lg font-semibold text-[var(--mc-text)]">
+                {formatMonthly(armProjection.schedule.monthlyPayment)}
+              </div>
+              <div className="mt-1 text-xs text-[var(--mc-muted)]">
+                {armInitialRate.toFixed(3)}% for {getArmProduct(armProduct).fixedMonths / 12} years
+              </div>
+            </div>
+            <div className="rounded-2xl border border-amber-200 bg-amber-50 p-4">
+              <div className="text-xs font-semibold uppercase tracking-wide text-amber-900/80">
+                Worst-case Max P&amp;I
+              </div>
+              <div className="mt-1 text-lg font-semibold text-amber-900">
+                {formatMonthly(armComparison.worstCase.maxPayment)}
+              </div>
+              <div className="mt-1 text-xs text-amber-900/80">
+                At {armComparison.worstCase.maxRatePercent.toFixed(3)}% (lifetime cap)
+              </div>
+            </div>
+            <div className="rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface-muted)] p-4">
+              <div className="text-xs font-semibold uppercase tracking-wide text-[var(--mc-muted)]">
+                Fixed-rate P&amp;I
+              </div>
+              <div className="mt-1 text-lg font-semibold text-[var(--mc-text)]">
+                {formatMonthly(armComparison.fixed.monthlyPayment)}
+              </div>
+              <div className="mt-1 text-xs text-[var(--mc-muted)]">
+                {interestRatePercent.toFixed(3)}% fixed · {formatCurrency(armComparison.fixed.totalInterest)}{' '}
+                interest
+              </div>
+            </div>
+          </div>
+
+          <div className="mt-6 grid gap-6 lg:grid-cols-2">
+            <div className="max-h-80 overflow-auto rounded-2xl border border-[var(--mc-border)]">
+              <table className="w-full border-collapse text-left text-sm">
+                <thead className="sticky top-0 bg-[var(--mc-surface-muted)]">
+                  <tr className="text-xs font-semibold uppercase tracking-wide text-[var(--mc-muted)]">
+                    <th className="px-4 py-3">Adjustment</th>
+                    <th className="px-4 py-3 text-right">Index</th>
+                    <th className="px-4 py-3 text-right">Rate</th>
+                    <th className="px-4 py-3 text-right">P&amp;I</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-[var(--mc-border)] bg-[var(--mc-surface)]">
+                  <tr className="hover:bg-[var(--mc-surface-muted)]">
+                    <td className="px-4 py-2.5 font-medium text-[var(--mc-text)]">
+                      Initial · {formatPaymentDate(firstPaymentMonth, 1)}
+                    </td>
+                    <td className="px-4 py-2.5 text-right text-[var(--mc-muted)]">—</td>
+                    <td className="px-4 py-2.5 text-right text-[color:var(--mc-text)]/80">
+                      {armInitialRate.toFixed(3)}%
+                    </td>
+                    <td className="px-4 py-2.5 text-right font-semibold text-[var(--mc-text)]">
+                      {formatMonthly(armProjection.schedule.monthlyPayment)}
+                    </td>
+                  </tr>
+                  {armProjection.adjustments.map(a => (
+                    <tr key={a.adjustment} className="hover:bg-[var(--mc-surface-muted)]">
+                      <td className="px-4 py-2.5 font-medium text-[var(--mc-text)]">
+                        #{a.adjustment} · {formatPaymentDate(firstPaymentMonth, a.month)}
+                      </td>
+                      <td className="px-4 py-2.5 text-right text-[color:var(--mc-text)]/80">
+                        {indexPath === 'worst-case' ? '—' : `${a.indexPercent.toFixed(2)}%`}
+                      </td>
+                      <td className="px-4 py-2.5 text-right text-[color:var(--mc-text)]/80">
+                        {a.ratePercent.toFixed(3)}%
+                      </td>
+                      <td className="px-4 py-2.5 text-right font-semibold text-[var(--mc-text)]">
+                        {formatMonthly(a.payment)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface)] p-4 shadow-sm">
+              <div className="mb-3 flex items-center justify-between">
+                <div className="text-sm font-semibold text-[var(--mc-text)]">P&amp;I by year</div>
+                <div className="text-xs font-medium text-[var(--mc-muted)]">Projected vs worst case vs fixed</div>
+              </div>
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart
+                    key={armChartId}
+                    data={armComparison.chart}
+                    margin={{ left: 8, right: 16, top: 8, bottom: 8 }}
+                  >
+                    {renderCyberpunkDefs(armChartId, theme.chart)}
+                    <CartesianGrid strokeDasharray="4 8" stroke="rgba(148,163,184,0.25)" />
+                    <XAxis
+                      dataKey="year"
+                      tickLine={false}
+                      axisLine={false}
+                      tick={{ fill: 'rgba(148,163,184,0.9)', fontSize: 12 }}
+                    />
+                    <YAxis
+                      tickLine={false}
+                      axisLine={false}
+                      width={72}
+                      tickFormatter={v => formatAxisCurrency(Number(v))}
+                      tick={{ fill: 'rgba(148,163,184,0.9)', fontSize: 12 }}
+                    />
+                    <Tooltip
+                      content={
+                        <CyberpunkTooltip
+                          labelFormatter={l => `Year ${String(l)}`}
+                          valueFormatter={v => formatMonthly(typeof v === 'number' ? v : Number(v))}
+                        />
+                      }
+                      cursor={{ stroke: 'rgba(79,172,254,0.3)', strokeWidth: 1 }}
+                    />
+                    <Line
+                      type="stepAfter"
+                      dataKey="worstCase"
+                      name="Worst Case"
+                      stroke={`url(#${armChartId}-grad-secondary)`}
+                      strokeWidth={3}
+                      dot={false}
+                      isAnimationActive
+                      animationDuration={CHART_ANIMATION.durationMs}
+                      animationEasing={CHART_ANIMATION.easing}
+                      animationBegin={50}
+                    />
+                    <Line
+                      type="stepAfter"
+                      dataKey="projected"
+                      name="Projected"
+                      stroke={`url(#${armChartId}-grad-primary)`}
+                      strokeWidth={3}
+                      dot={false}
+                      isAnimationActive
+                      animationDuration={CHART_ANIMATION.durationMs}
+                      animationEasing={CHART_ANIMATION.easing}
+                      animationBegin={50}
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="fixed"
+                      name="Fixed Rate"
+                      stroke={theme.chart.neutralTo}
+                      strokeWidth={2}
+                      strokeDasharray="6 6"
+                      dot={false}
+                      isAnimationActive
+                      animationDuration={CHART_ANIMATION.durationMs}
+                      animationEasing={CHART_ANIMATION.easing}
+                      animationBegin={50}
+                    />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </div>
+        </section>
+      ) : null}
+
+      {/* Prepayments */}
+      <section className="mt-6 rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface)] p-5 shadow-sm">
+        <div className="mb-4">
+          <div className="text-sm font-semibold text-[var(--mc-text)]">Extra payments</div>
+          <div className="mt-1 text-xs text-[var(--mc-muted)]">
+            Extra principal shortens the loan; the required monthly payment stays the same.
+          </div>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-2">
+          <div className="grid content-start gap-4">
+            <CurrencyField
+              id="extraMonthly"
+              label="Extra Monthly Principal"
+              value={extraMonthly}
+              setValue={setExtraMonthly}
+            />
+            <div className="grid gap-4 sm:grid-cols-2">
+              <CurrencyField
+                id="extraAnnual"
+                label="Annual Lump Sum"
+                value={extraAnnual}
+                setValue={setExtraAnnual}
+              />
+              <label className="block">
+                <div className="text-sm font-medium text-[color:var(--mc-text)]/85">Paid In</div>
+                <select
+                  value={extraAnnualMonth}
+                  onChange={e => setExtraAnnualMonth(Number(e.target.value))}
+                  className="mt-2 w-full rounded-xl border border-[var(--mc-input-border)] bg-[var(--mc-input-bg)] px-3 py-2.5 text-sm font-medium text-[var(--mc-text)] shadow-sm outline-none focus:border-[var(--mc-primary)] focus:ring-2 focus:ring-[var(--mc-ring)]"
+                >
+                  {Array.from({ length: 12 }, (_, i) => i + 1).map(m => (
+                    <option key={m} value={m}>
+                      Month {m} of each loan year
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <div className="rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface-muted)] p-4">
+              <div className="flex items-center justify-between">
+                <div className="text-sm font-semibold text-[var(--mc-text)]">One-time payments</div>
+                <button
+                  type="button"
+                  onClick={addOneTimePayment}
+                  className="inline-flex items-center gap-1.5 rounded-xl border border-[var(--mc-border)] bg-[var(--mc-surface)] px-3 py-1.5 text-xs font-semibold text-[color:var(--mc-text)]/80 shadow-sm hover:bg-[var(--mc-surface-muted)]"
+                >
+                  <Plus className="h-3.5 w-3.5" />
+                  Add
+                </button>
+              </div>
+
+              {oneTimePayments.length === 0 ? (
+                <div className="mt-2 text-xs text-[var(--mc-muted)]">
+                  Add a bonus, tax refund or other lump sum applied with a specific payment.
+                </div>
+              ) : (
+                <div className="mt-3 grid gap-3">
+                  {oneTimePayments.map(p => (
+                    <div key={p.id} className="grid grid-cols-[1fr_1fr_auto] items-start gap-3">
+                      <NumberField
+                        id={`oneTimeMonth-${p.id}`}
+                        label="Payment #"
+                        value={p.month}
+                        setValue={n =>
+                          updateOneTimePayment(p.id, { month: Math.max(1, Math.round(n)) })
+                        }
+                        min={1}
+                        step={1}
+                        helper={formatPaymentDate(firstPaymentMonth, p.month)}
+                      />
+                      <CurrencyField
+                        id={`oneTimeAmount-${p.id}`}
+                        label="Amount"
+                        value={p.amount}
+                        setValue={n => updateOneTimePayment(p.id, { amount: n })}
+                      />
+                      <button
+                        type="button"
+                        onClick={() => removeOneTimePayment(p.id)}
+                        className="mt-7 rounded-xl border border-[var(--mc-border)] bg-[var(--mc-surface)] p-2.5 text-[var(--mc-muted)] shadow-sm hover:text-[var(--mc-text)]"
+                        aria-label="Remove one-time payment"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          <div>
+            <div className="rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface-muted)] p-5 shadow-sm">
+              <div className="grid gap-4 sm:grid-cols-3">
+                <div>
+                  <div className="text-xs font-semibold uppercase tracking-wide text-[var(--mc-muted)]">
+                    Payoff Date
+                  </div>
+                  <div className="mt-1 text-xl font-semibold tracking-tight text-[var(--mc-text)]">
+                    {schedule.payoffMonth > 0
+                      ? formatPaymentDate(firstPaymentMonth, schedule.payoffMonth)
+                      : 'N/A'}
+                  </div>
+                  <div className="mt-1 text-xs text-[var(--mc-muted)]">
+                    Was{' '}
+                    {baselineSchedule.payoffMonth > 0
+                      ? formatPaymentDate(firstPaymentMonth, baselineSchedule.payoffMonth)
+                      : 'N/A'}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs font-semibold uppercase tracking-wide text-[var(--mc-muted)]">
+                    Time Saved
+                  </div>
+                  <div className="mt-1 text-xl font-semibold tracking-tight text-[var(--mc-text)]">
+                    {formatDuration(prepaymentSavings.monthsSaved)}
+                  </div>
+                  <div className="mt-1 text-xs text-[var(--mc-muted)]">
+                    {prepaymentSavings.monthsSaved} fewer payments
+                  </div>
+                </div>
+                <div>
+                  <div className="text-xs font-semibold uppercase tracking-wide text-[var(--mc-muted)]">
+                    Interest Saved
+                  </div>
+                  <div className="mt-1 text-xl font-semibold tracking-tight text-emerald-700">
+                    {formatCurrency(prepaymentSavings.interestSaved)}
+                  </div>
+                  <div className="mt-1 text-xs text-[var(--mc-muted)]">
+                    vs {formatCurrency(baselineSchedule.totalInterest)} baseline
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            <div className="mt-6 rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface)] p-4 shadow-sm">
+              <div className="mb-3 flex items-center justify-between">
+                <div className="text-sm font-semibold text-[var(--mc-text)]">Balance over time</div>
+                <div className="text-xs font-medium text-[var(--mc-muted)]">Baseline vs extra payments</div>
+              </div>
+
+              <div className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart
+                    key={prepayChartId}
+                    data={balanceComparisonData}
+                    margin={{ left: 8, right: 16, top: 8, bottom: 8 }}
+                  >
+                    {renderCyberpunkDefs(prepayChartId, theme.chart)}
+                    <CartesianGrid strokeDasharray="4 8" stroke="rgba(148,163,184,0.25)" />
+                    <XAxis
+                      dataKey="year"
+                      tickLine={false}
+                      axisLine={false}
+                      tick={{ fill: 'rgba(148,163,184,0.9)', fontSize: 12 }}
+                    />
+                    <YAxis
+                      tickLine={false}
+                      axisLine={false}
+                      width={80}
+                      tickFormatter={v => formatAxisCurrency(Number(v))}
+                      tick={{ fill: 'rgba(148,163,184,0.9)', fontSize: 12 }}
+                    />
+                    <Tooltip
+                      content={
+                        <CyberpunkTooltip
+                          labelFormatter={l => `Year ${String(l)}`}
+                          valueFormatter={v => formatCurrency(typeof v === 'number' ? v : Number(v))}
+                        />
+                      }
+                      cursor={{ stroke: 'rgba(79,172,254,0.3)', strokeWidth: 1 }}
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="baseline"
+                      name="Baseline Balance"
+                      stroke={`url(#${prepayChartId}-grad-secondary)`}
+                      strokeWidth={3}
+                      dot={false}
+                      isAnimationActive
+                      animationDuration={CHART_ANIMATION.durationMs}
+                      animationEasing={CHART_ANIMATION.easing}
+                      animationBegin={50}
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="accelerated"
+                      name="With Extra Payments"
+                      stroke={`url(#${prepayChartId}-grad-primary)`}
+                      strokeWidth={3}
+                      dot={false}
+                      isAnimationActive
+                      animationDuration={CHART_ANIMATION.durationMs}
+                      animationEasing={CHART_ANIMATION.easing}
+                      animationBegin={50}
+                      activeDot={{
+                        r: 6,
+                        fill: 'rgba(15,23,42,0.95)',
+                        stroke: theme.chart.primaryFrom,
+                        strokeWidth: 2,
+                        filter: `url(#${prepayChartId}-glow)`
+                      }}
+                    />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              </div>
+            </div>
+          </div>
+        </div>
+      </section>
+
+      {/* Amortization schedule */}
+      <section className="mt-6 rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface)] p-5 shadow-sm">
+        <div className="mb-4 flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <div className="text-sm font-semibold text-[var(--mc-text)]">Amortization schedule</div>
+            <div className="mt-1 text-xs text-[var(--mc-muted)]">
+              How each payment splits between principal and interest over the life of the loan.
+            </div>
+          </div>
+          <ScheduleViewToggle value={scheduleView} onChange={setScheduleView} />
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface-muted)] p-4">
+            <div className="text-xs font-semibold uppercase tracking-wide text-[var(--mc-muted)]">
+              Total Interest
+            </div>
+            <div className="mt-1 text-lg font-semibold text-[var(--mc-text)]">
+              {formatCurrency(schedule.totalInterest)}
+            </div>
+          </div>
+          <div className="rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface-muted)] p-4">
+            <div className="text-xs font-semibold uppercase tracking-wide text-[var(--mc-muted)]">
+              Total of Payments
+            </div>
+            <div className="mt-1 text-lg font-semibold text-[var(--mc-text)]">
+              {formatCurrency(schedule.totalPaid)}
+            </div>
+          </div>
+          <div className="rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface-muted)] p-4">
+            <div className="text-xs font-semibold uppercase tracking-wide text-[var(--mc-muted)]">
+              Principal Overtakes Interest
+            </div>
+            <div className="mt-1 text-lg font-semibold text-[var(--mc-text)]">
+              {principalOvertakesMonth
+                ? `Month ${principalOvertakesMonth} (Year ${Math.ceil(principalOvertakesMonth / 12)})`
+                : 'N/A'}
+            </div>
+          </div>
+        </div>
+
+        <div className="mt-6 rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface)] p-4 shadow-sm">
+          <div className="mb-3 flex items-center justify-between">
+            <div className="text-sm font-semibold text-[var(--mc-text)]">Principal vs interest by year</div>
+            <div className="text-xs font-medium text-[var(--mc-muted)]">Stacked area + balance</div>
+          </div>
+
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart
+                key={scheduleChartId}
+                data={scheduleChartData}
+                margin={{ left: 8, right: 8, top: 8, bottom: 8 }}
+              >
+                {renderCyberpunkDefs(scheduleChartId, theme.chart)}
+                <CartesianGrid strokeDasharray="4 8" stroke="rgba(148,163,184,0.25)" />
+                <XAxis
+                  dataKey="year"
+                  tickLine={false}
+                  axisLine={false}
+                  tick={{ fill: 'rgba(148,163,184,0.9)', fontSize: 12 }}
+                />
+                <YAxis
+                  yAxisId="flow"
+                  tickLine={false}
+                  axisLine={false}
+                  width={72}
+                  tickFormatter={v => formatAxisCurrency(Number(v))}
+                  tick={{ fill: 'rgba(148,163,184,0.9)', fontSize: 12 }}
+                />
+                <YAxis
+                  yAxisId="balance"
+                  orientation="right"
+                  tickLine={false}
+                  axisLine={false}
+                  width={80}
+                  tickFormatter={v => formatAxisCurrency(Number(v))}
+                  tick={{ fill: 'rgba(148,163,184,0.9)', fontSize: 12 }}
+                />
+                <Tooltip
+                  content={
+                    <CyberpunkTooltip
+                      labelFormatter={l => `Year ${String(l)}`}
+                      valueFormatter={v => formatCurrency(typeof v === 'number' ? v : Number(v))}
+                    />
+                  }
+                  cursor={{ stroke: 'rgba(79,172,254,0.3)', strokeWidth: 1 }}
+                />
+                {principalOvertakesMonth ? (
+                  <ReferenceLine
+                    yAxisId="flow"
+                    x={Math.ceil(principalOvertakesMonth / 12)}
+                    stroke={theme.chart.accentTo}
+                    strokeDasharray="4 4"
+                    ifOverflow="extendDomain"
+                  />
+                ) : null}
+                <Area
+                  yAxisId="flow"
+                  type="monotone"
+                  dataKey="principal"
+                  name="Principal"
+                  stackId="payment"
+                  stroke={theme.chart.primaryTo}
+                  fill={`url(#${scheduleChartId}-grad-primary)`}
+                  fillOpacity={0.55}
+                  isAnimationActive
+                  animationDuration={CHART_ANIMATION.durationMs}
+                  animationEasing={CHART_ANIMATION.easing}
+                  animationBegin={50}
+                />
+                <Area
+                  yAxisId="flow"
+                  type="monotone"
+                  dataKey="interest"
+                  name="Interest"
+                  stackId="payment"
+                  stroke={theme.chart.secondaryTo}
+                  fill={`url(#${scheduleChartId}-grad-secondary)`}
+                  fillOpacity={0.55}
+                  isAnimationActive
+                  animationDuration={CHART_ANIMATION.durationMs}
+                  animationEasing={CHART_ANIMATION.easing}
+                  animationBegin={50}
+                />
+                <Line
+                  yAxisId="balance"
+                  type="monotone"
+                  dataKey="balance"
+                  name="Remaining Balance"
+                  stroke={`url(#${scheduleChartId}-grad-accent)`}
+                  strokeWidth={3}
+                  dot={false}
+                  isAnimationActive
+                  animationDuration={CHART_ANIMATION.durationMs}
+                  animationEasing={CHART_ANIMATION.easing}
+                  animationBegin={50}
+                  activeDot={{
+                    r: 6,
+                    fill: 'rgba(15,23,42,0.95)',
+                    stroke: theme.chart.accentTo,
+                    strokeWidth: 2,
+                    filter: `url(#${scheduleChartId}-glow)`
+                  }}
+                />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+
+        <div className="mt-6 max-h-96 overflow-auto rounded-2xl border border-[var(--mc-border)]">
+          <table className="w-full border-collapse text-left text-sm">
+            <thead className="sticky top-0 bg-[var(--mc-surface-muted)]">
+              <tr className="text-xs font-semibold uppercase tracking-wide text-[var(--mc-muted)]">
+                <th className="px-4 py-3">Period</th>
+                <th className="px-4 py-3 text-right">Payment</th>
+                <th className="px-4 py-3 text-right">Principal</th>
+                {hasPrepayments ? <th className="px-4 py-3 text-right">Extra</th> : null}
+                <th className="px-4 py-3 text-right">Interest</th>
+                <th className="px-4 py-3 text-right">Balance</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-[var(--mc-border)] bg-[var(--mc-surface)]">
+              {scheduleTableRows.map(row => (
+                <tr key={row.key} className="hover:bg-[var(--mc-surface-muted)]">
+                  <td className="px-4 py-2.5 font-medium text-[var(--mc-text)]">{row.label}</td>
+                  <td className="px-4 py-2.5 text-right text-[color:var(--mc-text)]/80">
+                    {formatCurrency(row.payment)}
+                  </td>
+                  <td className="px-4 py-2.5 text-right text-[color:var(--mc-text)]/80">
+                    {formatCurrency(row.principal)}
+                  </td>
+                  {hasPrepayments ? (
+                    <td className="px-4 py-2.5 text-right text-[color:var(--mc-text)]/80">
+                      {row.extraPrincipal > 0 ? formatCurrency(row.extraPrincipal) : '—'}
+                    </td>
+                  ) : null}
+                  <td className="px-4 py-2.5 text-right text-[color:var(--mc-text)]/80">
+                    {formatCurrency(row.interest)}
+                  </td>
+                  <td className="px-4 py-2.5 text-right font-semibold text-[var(--mc-text)]">
+                    {formatCurrency(row.balance)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </section>
     </div>
   )
 }
@@ -1,4 +1,21 @@
 import { useMemo, useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
+import { calculateMonthlyPrincipalAndInterest } from '../finance/amortization'
+import { calculateApr } from '../finance/apr'
+import {
+  analyzePermanentBuydown,
+  buildTemporaryBuydownSchedule,
+  checkSellerContribution,
+  compareConcessionUses,
+  CONCESSION_PROGRAM_LABELS,
+  CONCESSION_USE_LABELS,
+  type ConcessionProgram,
+  DEFAULT_RATE_REDUCTION_PER_POINT,
+  type PointsLadderRow,
+  reducedRateForPoints,
+  TEMPORARY_BUYDOWN_PRESETS,
+  type TemporaryBuydownPreset
+} from '../finance/buydown'
 
 const currencyFormatter = new Intl.NumberFormat('en-US', {
   style: 'currency',
@@ -15,24 +32,6 @@ function clampNonNegative(n: number) {
   return Number.isFinite(n) ? Math.max(0, n) : 0
 }
 
-function calculateMonthlyPrincipalAndInterest(
-  principal: number,
-  annualRatePercent: number,
-  termYears: number
-) {
-  const P = clampNonNegative(principal)
-  const years = clampNonNegative(termYears)
-  const n = Math.round(years * 12)
-  if (P === 0 || n === 0) return 0
-
-  const annualRate = clampNonNegative(annualRatePercent) / 100
-  const r = annualRate / 12
-  if (r === 0) return P / n
-
-  const pow = Math.pow(1 + r, n)
-  return (P * r * pow) / (pow - 1)
-}
-
 type MoneyInputProps = {
   id: string
   label: string
@@ -110,7 +109,27 @@ function NumberInput({
   )
 }
 
-type BuydownType = 'none' | 'temporary-2-1'
+function formatMonths(months: number | null) {
+  if (months === null) return 'Never'
+  if (months === 0) return 'Immediately'
+  const years = Math.floor(months / 12)
+  const rest = months % 12
+  if (years === 0) return `${rest} mo`
+  return rest === 0 ? `${years} yr` : `${years} yr ${rest} mo`
+}
+
+type BuydownType = 'none' | 'temporary' | 'permanent'
+
+type TemporarySchedule = TemporaryBuydownPreset | 'custom'
+
+type PointsPricing = 'points' | 'ladder'
+
+const DEFAULT_POINTS_LADDER: PointsLadderRow[] = [
+  { id: 1, points: 0.5, ratePercent: 6.375 },
+  { id: 2, points: 1, ratePercent: 6.25 },
+  { id: 3, points: 2, ratePercent: 6 },
+  { id: 4, points: 3, ratePercent: 5.75 }
+]
 
 type ScheduleRow = {
   periodLabel: string
@@ -122,51 +141,163 @@ type ScheduleRow = {
 }
 
 export function RateBuydownCalculator() {
-  const TERM_YEARS = 30
-
-  const [buydownType, setBuydownType] = useState<BuydownType>('temporary-2-1')
+  const [buydownType, setBuydownType] = useState<BuydownType>('temporary')
+  const [temporarySchedule, setTemporarySchedule] = useState<TemporarySchedule>('2-1')
+  const [customSteps, setCustomSteps] = useState<number[]>([3, 2, 1])
+  const [termYears, setTermYears] = useState(30)
   const [loanAmount, setLoanAmount] = useState(320_000)
   const [baseRatePercent, setBaseRatePercent] = useState(6.5)
+  const [lenderFees, setLenderFees] = useState(0)
 
-  const { baseMonthlyPayment, schedule } = useMemo(() => {
-    const basePayment = calculateMonthlyPrincipalAndInterest(loanAmount, baseRatePercent, TERM_YEARS)
+  const term = Math.max(1, Math.round(termYears))
 
-    const rows: ScheduleRow[] = []
+  // Permanent buydown: points priced by a flat reduction per point or by a lender's rate ladder
+  const [pointsPricing, setPointsPricing] = useState<PointsPricing>('points')
+  const [points, setPoints] = useState(2)
+  const [reductionPerPoint, setReductionPerPoint] = useState(DEFAULT_RATE_REDUCTION_PER_POINT)
+  const [ladder, setLadder] = useState<PointsLadderRow[]>(DEFAULT_POINTS_LADDER)
+  const [selectedLadderId, setSelectedLadderId] = useState(3)
+  const [cashReturnPercent, setCashReturnPercent] = useState(4)
+  const [sellerPaysPoints, setSellerPaysPoints] = useState(false)
 
-    if (buydownType === 'temporary-2-1') {
-      const y1Rate = Math.max(0, baseRatePercent - 2)
-      const y2Rate = Math.max(0, baseRatePercent - 1)
-      const y3Rate = Math.max(0, baseRatePercent)
+  // Seller concessions are capped by program and LTV
+  const [concessionProgram, setConcessionProgram] = useState<ConcessionProgram>('conventional')
+  const [salePrice, setSalePrice] = useState(400_000)
+  const [otherSellerCredits, setOtherSellerCredits] = useState(0)
 
-      const y1Pay = calculateMonthlyPrincipalAndInterest(loanAmount, y1Rate, TERM_YEARS)
-      const y2Pay = calculateMonthlyPrincipalAndInterest(loanAmount, y2Rate, TERM_YEARS)
-      const y3Pay = calculateMonthlyPrincipalAndInterest(loanAmount, y3Rate, TERM_YEARS)
+  // Concession comparison
+  const [compareConcessions, setCompareConcessions] = useState(false)
+  const [concessionAmount, setConcessionAmount] = useState(10_000)
+  const [horizonYears, setHorizonYears] = useState(7)
+  const horizon = Math.min(term, Math.max(1, Math.round(horizonYears)))
 
-      rows.push({
-        periodLabel: 'Year 1',
-        ratePercent: y1Rate,
-        monthlyPayment: y1Pay,
-        annualPayment: y1Pay * 12,
-        savingsMonthly: basePayment - y1Pay,
-        savingsAnnual: (basePayment - y1Pay) * 12
-      })
-      rows.push({
-        periodLabel: 'Year 2',
-        ratePercent: y2Rate,
-        monthlyPayment: y2Pay,
-        annualPayment: y2Pay * 12,
-        savingsMonthly: basePayment - y2Pay,
-        savingsAnnual: (basePayment - y2Pay) * 12
+  const ladderAnalyses = useMemo(
+    () =>
+      ladder.map(row => ({
+        row,
+        result: analyzePermanentBuydown({
+          loanAmount,
+          baseRatePercent,
+          reducedRatePercent: row.ratePercent,
+          points: row.points,
+          termYears: term,
+          cashReturnPercent
+        })
+      })),
+    [baseRatePercent, cashReturnPercent, ladder, loanAmount, term]
+  )
+
+  const effectiveLadderId = ladder.some(row => row.id === selectedLadderId)
+    ? selectedLadderId
+    : ladder[0]?.id
+
+  const permanent = useMemo(() => {
+    if (pointsPricing === 'ladder') {
+      const selected = ladderAnalyses.find(a => a.row.id === effectiveLadderId)
+      if (selected) return { points: selected.row.points, result: selected.result }
+    }
+    return {
+      points,
+      result: analyzePermanentBuydown({
+        loanAmount,
+        baseRatePercent,
+        reducedRatePercent: reducedRateForPoints(baseRatePercent, points, reductionPerPoint),
+        points,
+        termYears: term,
+        cashReturnPercent
       })
+    }
+  }, [
+    baseRatePercent,
+    cashReturnPercent,
+    effectiveLadderId,
+    ladderAnalyses,
+    loanAmount,
+    points,
+    pointsPricing,
+    reductionPerPoint,
+    term
+  ])
+
+  function updateLadderRow(id: number, patch: Partial<PointsLadderRow>) {
+    setLadder(prev => prev.map(row => (row.id === id ? { ...row, ...patch } : row)))
+  }
+
+  function addLadderRow() {
+    setLadder(prev => {
+      const last = prev[prev.length - 1]
+      const id = prev.reduce((max, row) => Math.max(max, row.id), 0) + 1
+      return [
+        ...prev,
+        {
+          id,
+          points: (last?.points ?? 0) + 1,
+          ratePercent: Math.max(0, (last?.ratePercent ?? baseRatePercent) - reductionPerPoint)
+        }
+      ]
+    })
+  }
+
+  function removeLadderRow(id: number) {
+    setLadder(prev => prev.filter(row => row.id !== id))
+  }
+
+  const temporarySteps =
+    temporarySchedule === 'custom' ? customSteps : TEMPORARY_BUYDOWN_PRESETS[temporarySchedule]
+
+  function updateCustomStep(index: number, value: number) {
+    setCustomSteps(prev => prev.map((step, i) => (i === index ? value : step)))
+  }
+
+  const temporary = useMemo(
+    () =>
+      buildTemporaryBuydownSchedule({
+        loanAmount,
+        noteRatePercent: baseRatePercent,
+        termYears: term,
+        steps: temporarySteps
+      }),
+    [baseRatePercent, loanAmount, temporarySteps, term]
+  )
+
+  const { baseMonthlyPayment, schedule } = useMemo(() => {
+    const basePayment = calculateMonthlyPrincipalAndInterest(loanAmount, baseRatePercent, term)
+
+    const rows: ScheduleRow[] = []
+
+    if (buydownType === 'temporary') {
+      for (const year of temporary.subsidizedYears) {
+        rows.push({
+          periodLabel: `Year ${year.year}`,
+          ratePercent: year.ratePercent,
+          monthlyPayment: year.monthlyPayment,
+          annualPayment: year.monthlyPayment * 12,
+          savingsMonthly: year.monthlyShortfall,
+          savingsAnnual: year.monthlyShortfall * 12
+        })
+      }
+      const firstFullYear = temporary.subsidizedYears.length + 1
+      if (firstFullYear <= term) {
+        rows.push({
+          periodLabel: firstFullYear === term ? `Year ${term}` : `Year ${firstFullYear}–${term}`,
+          ratePercent: Math.max(0, baseRatePercent),
+          monthlyPayment: temporary.noteRateMonthlyPayment,
+          annualPayment: temporary.noteRateMonthlyPayment * 12
+        })
+      }
+    } else if (buydownType === 'permanent') {
+      const payment = permanent.result.monthlyPayment
       rows.push({
-        periodLabel: 'Year 3–30',
-        ratePercent: y3Rate,
-        monthlyPayment: y3Pay,
-        annualPayment: y3Pay * 12
+        periodLabel: `Year 1–${term}`,
+        ratePercent: permanent.result.reducedRatePercent,
+        monthlyPayment: payment,
+        annualPayment: payment * 12,
+        savingsMonthly: basePayment - payment,
+        savingsAnnual: (basePayment - payment) * 12
       })
     } else {
       rows.push({
-        periodLabel: 'Year 1–30',
+        periodLabel: `Year 1–${term}`,
         ratePercent: Math.max(0, baseRatePercent),
         monthlyPayment: basePayment,
         annualPayment: basePayment * 12
@@ -174,7 +305,60 @@ export function RateBuydownCalculator() {
     }
 
     return { baseMonthlyPayment: basePayment, schedule: rows }
-  }, [baseRatePercent, buydownType, loanAmount])
+  }, [baseRatePercent, buydownType, loanAmount, permanent, temporary, term])
+
+  const buydownSubsidy = buydownType === 'temporary' ? temporary.totalSubsidy : 0
+  const sellerPointsCost =
+    buydownType === 'permanent' && sellerPaysPoints ? permanent.result.upfrontCost : 0
+  const concessionCheck = checkSellerContribution({
+    program: concessionProgram,
+    salePrice,
+    loanAmount,
+    buydownSubsidy,
+    discountPointsCost: sellerPointsCost,
+    otherCredits: otherSellerCredits
+  })
+
+  // The buydown subsidy is treated as third-party funds, so the APR follows the note-rate payments.
+  // Discount points are a finance charge and lower the note rate itself.
+  const apr = useMemo(() => {
+    const isPermanent = buydownType === 'permanent'
+    const charges = lenderFees + (isPermanent ? permanent.result.upfrontCost : 0)
+    if (charges <= 0) return null
+    const payment = isPermanent ? permanent.result.monthlyPayment : baseMonthlyPayment
+    return calculateApr({
+      loanAmount,
+      prepaidFinanceCharges: charges,
+      payments: Array.from({ length: term * 12 }, () => payment)
+    })
+  }, [baseMonthlyPayment, buydownType, lenderFees, loanAmount, permanent, term])
+
+  const noteRatePercent =
+    buydownType === 'permanent' ? permanent.result.reducedRatePercent : baseRatePercent
+
+  const concessionComparison = useMemo(
+    () =>
+      compareConcessionUses({
+        salePrice,
+        loanAmount,
+        noteRatePercent: baseRatePercent,
+        termYears: term,
+        concession: concessionAmount,
+        temporarySteps,
+        reductionPerPoint,
+        horizonYears: horizon
+      }),
+    [
+      baseRatePercent,
+      concessionAmount,
+      horizon,
+      loanAmount,
+      reductionPerPoint,
+      salePrice,
+      temporarySteps,
+      term
+    ]
+  )
 
   return (
     <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
@@ -182,11 +366,12 @@ export function RateBuydownCalculator() {
         <div>
           <div className="text-sm font-semibold text-slate-900">Rate Buydown</div>
           <div className="mt-1 text-sm text-slate-500">
-            Model a temporary buydown payment schedule (2-1) vs the base rate.
+            Model a temporary (3-2-1, 2-1, 1-1, 1-0 or custom) or permanent (discount points)
+            buydown vs the base rate.
           </div>
         </div>
         <div className="rounded-xl border border-slate-200 bg-slate-50 px-3 py-2 text-xs font-semibold text-slate-600">
-          {TERM_YEARS}-year assumption
+          {term}-year term
         </div>
       </div>
 
@@ -203,13 +388,96 @@ export function RateBuydownCalculator() {
                   onChange={e => setBuydownType(e.target.value as BuydownType)}
                   className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2.5 text-sm font-medium text-slate-900 shadow-sm outline-none focus:border-navy-900 focus:ring-2 focus:ring-navy-900/10"
                 >
-                  <option value="temporary-2-1">Temporary 2-1 Buydown</option>
+                  <option value="temporary">Temporary Buydown</option>
+                  <option value="permanent">Permanent (Discount Points)</option>
                   <option value="none">None</option>
                 </select>
               </div>
             </label>
 
+            {buydownType === 'temporary' ? (
+              <div className="grid gap-4 rounded-2xl border border-slate-200 p-4">
+                <label className="block">
+                  <div className="text-sm font-medium text-slate-800">Schedule</div>
+                  <div className="mt-2">
+                    <select
+                      value={temporarySchedule}
+                      onChange={e => setTemporarySchedule(e.target.value as TemporarySchedule)}
+                      className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2.5 text-sm font-medium text-slate-900 shadow-sm outline-none focus:border-navy-900 focus:ring-2 focus:ring-navy-900/10"
+                    >
+                      {(Object.keys(TEMPORARY_BUYDOWN_PRESETS) as TemporaryBuydownPreset[]).map(
+                        preset => (
+                          <option key={preset} value={preset}>
+                            {preset}
+                          </option>
+                        )
+                      )}
+                      <option value="custom">Custom</option>
+                    </select>
+                  </div>
+                </label>
+
+                {temporarySchedule === 'custom' ? (
+                  <div>
+                    <div className="text-sm font-medium text-slate-800">Rate reduction by year</div>
+                    <div className="mt-2 grid gap-2">
+                      {customSteps.map((step, i) => (
+                        <div key={i} className="flex items-center gap-3">
+                          <span className="w-16 text-sm font-medium text-slate-600">
+                            Year {i + 1}
+                          </span>
+                          <div className="flex flex-1 items-center rounded-xl border border-slate-200 bg-white shadow-sm focus-within:border-navy-900 focus-within:ring-2 focus-within:ring-navy-900/10">
+                            <input
+                              type="number"
+                              inputMode="decimal"
+                              min={0}
+                              step={0.125}
+                              value={step}
+                              onChange={e =>
+                                updateCustomStep(i, clampNonNegative(Number(e.target.value)))
+                              }
+                              className="w-full bg-transparent px-3 py-2 text-sm font-medium text-slate-900 outline-none"
+                              aria-label={`Year ${i + 1} rate reduction`}
+                            />
+                            <span className="select-none pr-3 text-sm font-semibold text-slate-500">
+                              %
+                            </span>
+                          </div>
+                          <button
+                            type="button"
+                            onClick={() => setCustomSteps(prev => prev.filter((_, j) => j !== i))}
+                            disabled={customSteps.length <= 1}
+                            className="rounded-lg p-1 text-slate-400 hover:text-slate-700 disabled:opacity-40"
+                            aria-label={`Remove year ${i + 1}`}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
+                        </div>
+                      ))}
+                    </div>
+                    <button
+                      type="button"
+                      onClick={() => setCustomSteps(prev => [...prev, 0])}
+                      disabled={customSteps.length >= term}
+                      className="mt-2 inline-flex items-center gap-1 rounded-lg px-2 py-1 text-xs font-semibold text-slate-600 hover:bg-slate-50 disabled:opacity-40"
+                    >
+                      <Plus className="h-3.5 w-3.5" /> Add year
+                    </button>
+                  </div>
+                ) : null}
+              </div>
+            ) : null}
+
             <MoneyInput id="loanAmount" label="Loan Amount" value={loanAmount} onChange={setLoanAmount} />
+            <NumberInput
+              id="termYears"
+              label="Loan Term"
+              value={termYears}
+              onChange={setTermYears}
+              min={1}
+              step={1}
+              suffix="yrs"
+            />
             <NumberInput
               id="baseRate"
               label="Base Interest Rate"
@@ -219,13 +487,206 @@ export function RateBuydownCalculator() {
               step={0.01}
               suffix="%"
             />
+            <MoneyInput
+              id="lenderFees"
+              label="Points & Lender Fees"
+              value={lenderFees}
+              onChange={setLenderFees}
+              helper="Prepaid finance charges; enter an amount to see the APR."
+            />
+
+            {buydownType === 'permanent' ? (
+              <div className="grid gap-4 rounded-2xl border border-slate-200 p-4">
+                <label className="block">
+                  <div className="text-sm font-medium text-slate-800">Points Pricing</div>
+                  <div className="mt-2">
+                    <select
+                      value={pointsPricing}
+                      onChange={e => setPointsPricing(e.target.value as PointsPricing)}
+                      className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2.5 text-sm font-medium text-slate-900 shadow-sm outline-none focus:border-navy-900 focus:ring-2 focus:ring-navy-900/10"
+                    >
+                      <option value="points">Points with a fixed rate reduction</option>
+                      <option value="ladder">Lender pricing ladder</option>
+                    </select>
+                  </div>
+                </label>
+
+                {pointsPricing === 'points' ? (
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <NumberInput
+                      id="points"
+                      label="Discount Points"
+                      value={points}
+                      onChange={setPoints}
+                      step={0.125}
+                      helper={`${formatCurrency(permanent.result.upfrontCost)} at closing`}
+                    />
+                    <NumberInput
+                      id="reductionPerPoint"
+                      label="Rate Reduction per Point"
+                      value={reductionPerPoint}
+                      onChange={setReductionPerPoint}
+                      step={0.0625}
+                      suffix="%"
+                    />
+                  </div>
+                ) : (
+                  <div>
+                    <div className="overflow-hidden rounded-xl border border-slate-200">
+                      <table className="w-full border-collapse text-left text-sm">
+                        <thead className="bg-slate-50">
+                          <tr className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                            <th className="px-3 py-2">Use</th>
+                            <th className="px-3 py-2">Points</th>
+                            <th className="px-3 py-2">Rate %</th>
+                            <th className="px-3 py-2" />
+                          </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-200 bg-white">
+                          {ladder.map(row => (
+                            <tr key={row.id}>
+                              <td className="px-3 py-2">
+                                <input
+                                  type="radio"
+                                  name="ladderRow"
+                                  checked={row.id === effectiveLadderId}
+                                  onChange={() => setSelectedLadderId(row.id)}
+                                  aria-label={`Use ${row.points} points`}
+                                />
+                              </td>
+                              <td className="px-3 py-2">
+                                <input
+                                  type="number"
+                                  min={0}
+                                  step={0.125}
+                                  value={row.points}
+                                  onChange={e =>
+                                    updateLadderRow(row.id, {
+                                      points: clampNonNegative(Number(e.target.value))
+                                    })
+                                  }
+                                  className="w-20 rounded-lg border border-slate-200 px-2 py-1 text-sm"
+                                  aria-label="Points"
+                                />
+                              </td>
+                              <td className="px-3 py-2">
+                                <input
+                                  type="number"
+                                  min={0}
+                                  step={0.125}
+                                  value={row.ratePercent}
+                                  onChange={e =>
+                                    updateLadderRow(row.id, {
+                                      ratePercent: clampNonNegative(Number(e.target.value))
+                                    })
+                                  }
+                                  className="w-24 rounded-lg border border-slate-200 px-2 py-1 text-sm"
+                                  aria-label="Rate"
+                                />
+                              </td>
+                              <td className="px-3 py-2 text-right">
+                                <button
+                                  type="button"
+                                  onClick={() => removeLadderRow(row.id)}
+                                  disabled={ladder.length <= 1}
+                                  className="rounded-lg p-1 text-slate-400 hover:text-slate-700 disabled:opacity-40"
+                                  aria-label="Remove ladder row"
+                                >
+                                  <Trash2 className="h-4 w-4" />
+                                </button>
+                              </td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={addLadderRow}
+                      className="mt-2 inline-flex items-center gap-1 rounded-lg px-2 py-1 text-xs font-semibold text-slate-600 hover:bg-slate-50"
+                    >
+                      <Plus className="h-3.5 w-3.5" /> Add rate
+                    </button>
+                  </div>
+                )}
+
+                <NumberInput
+                  id="cashReturn"
+                  label="Return on Cash Kept"
+                  value={cashReturnPercent}
+                  onChange={setCashReturnPercent}
+                  step={0.25}
+                  suffix="%"
+                  helper="What the points money would earn if invested instead."
+                />
+                <label className="flex items-center gap-3">
+                  <input
+                    type="checkbox"
+                    checked={sellerPaysPoints}
+                    onChange={e => setSellerPaysPoints(e.target.checked)}
+                    className="h-4 w-4 accent-navy-900"
+                  />
+                  <span className="text-sm font-medium text-slate-800">Seller pays the points</span>
+                </label>
+              </div>
+            ) : null}
+
+            {buydownType !== 'none' ? (
+              <div className="grid gap-4 rounded-2xl border border-slate-200 p-4">
+                <div className="text-sm font-semibold text-slate-900">Seller concessions</div>
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <label className="block">
+                    <div className="text-sm font-medium text-slate-800">Loan Program</div>
+                    <div className="mt-2">
+                      <select
+                        value={concessionProgram}
+                        onChange={e => setConcessionProgram(e.target.value as ConcessionProgram)}
+                        className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2.5 text-sm font-medium text-slate-900 shadow-sm outline-none focus:border-navy-900 focus:ring-2 focus:ring-navy-900/10"
+                      >
+                        {(Object.keys(CONCESSION_PROGRAM_LABELS) as ConcessionProgram[]).map(
+                          program => (
+                            <option key={program} value={program}>
+                              {CONCESSION_PROGRAM_LABELS[program]}
+                            </option>
+                          )
+                        )}
+                      </select>
+                    </div>
+                  </label>
+                  <MoneyInput
+                    id="salePrice"
+                    label="Sale Price"
+                    value={salePrice}
+                    onChange={setSalePrice}
+                    helper={`${concessionCheck.ltvPercent.toFixed(1)}% LTV`}
+                  />
+                </div>
+                <MoneyInput
+                  id="otherSellerCredits"
+                  label="Other Seller Credits"
+                  value={otherSellerCredits}
+                  onChange={setOtherSellerCredits}
+                  helper={
+                    concessionProgram === 'va'
+                      ? 'Only credits VA counts as concessions; normal closing costs and discount points are excluded.'
+                      : 'Closing cost credits and other interested-party contributions.'
+                  }
+                />
+              </div>
+            ) : null}
 
             <div className="rounded-2xl border border-slate-200 bg-slate-50 p-4 text-xs text-slate-600">
               <div className="font-semibold text-slate-700">Base payment (monthly)</div>
               <div className="mt-1 text-lg font-semibold text-slate-900">
                 {formatCurrency(baseMonthlyPayment)}
               </div>
-              <div className="mt-1">Used to compute Year 1 &amp; 2 savings.</div>
+              <div className="mt-1">Used to compute the buydown savings.</div>
+              {apr !== null ? (
+                <div className="mt-2 border-t border-slate-200 pt-2">
+                  <span className="font-semibold text-slate-900">{apr.toFixed(3)}% APR</span> vs{' '}
+                  {noteRatePercent.toFixed(3)}% note rate
+                </div>
+              ) : null}
             </div>
           </div>
         </section>
@@ -274,14 +735,356 @@ export function RateBuydownCalculator() {
             </table>
           </div>
 
-          {buydownType === 'temporary-2-1' ? (
+          {buydownType === 'temporary' ? (
             <div className="mt-4 rounded-2xl border border-slate-200 bg-slate-50 p-4 text-xs text-slate-600">
               Savings shown are vs the <span className="font-semibold text-slate-700">base rate</span>{' '}
               payment. (This is a simplified schedule view.)
             </div>
           ) : null}
+
+          {buydownType !== 'none' ? (
+            <div className="mt-4 rounded-2xl border border-slate-200 bg-white p-4 text-sm">
+              <div className="grid gap-2">
+                {buydownType === 'temporary' ? (
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-slate-700">Buydown subsidy (escrowed)</span>
+                    <span className="font-semibold text-slate-900">
+                      {formatCurrency(buydownSubsidy)}
+                    </span>
+                  </div>
+                ) : null}
+                {sellerPointsCost > 0 ? (
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-slate-700">Seller-paid points</span>
+                    <span className="font-semibold text-slate-900">
+                      {formatCurrency(sellerPointsCost)}
+                    </span>
+                  </div>
+                ) : null}
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-slate-700">Counted toward limit</span>
+                  <span className="font-semibold text-slate-900">
+                    {formatCurrency(concessionCheck.countedContribution)}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-slate-700">
+                    Limit ({concessionCheck.limitPercent}% of price)
+                  </span>
+                  <span className="font-semibold text-slate-900">
+                    {formatCurrency(concessionCheck.limitAmount)}
+                  </span>
+                </div>
+              </div>
+              {concessionCheck.excess > 0 ? (
+                <div className="mt-3 rounded-xl border border-amber-200 bg-amber-50 p-3 text-xs text-amber-900">
+                  <span className="font-semibold">
+                    Exceeds the limit by {formatCurrency(concessionCheck.excess)}.
+                  </span>{' '}
+                  {concessionCheck.rule}. The excess would have to be paid by the buyer or taken off
+                  the sale price.
+                </div>
+              ) : (
+                <div className="mt-3 text-xs text-slate-500">
+                  Within the limit. {concessionCheck.rule}.
+                </div>
+              )}
+            </div>
+          ) : null}
         </section>
       </div>
+
+      {buydownType === 'permanent' ? (
+        <section className="mt-6 rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+          <div className="mb-4 text-sm font-semibold text-slate-900">Permanent buydown</div>
+
+          <div className="grid gap-4 sm:grid-cols-3 lg:grid-cols-5">
+            {[
+              {
+                label: 'Reduced rate',
+                value: `${permanent.result.reducedRatePercent.toFixed(3)}%`,
+                detail: `${permanent.points} points`
+              },
+              {
+                label: 'Upfront cost',
+                value: formatCurrency(permanent.result.upfrontCost),
+                detail: 'Paid at closing'
+              },
+              {
+                label: 'Monthly savings',
+                value: formatCurrency(permanent.result.monthlySavings),
+                detail: `${formatCurrency(permanent.result.monthlyPayment)}/mo payment`
+              },
+              {
+                label: 'Break-even',
+                value: formatMonths(permanent.result.breakEvenMonth),
+                detail: 'Savings repay the points'
+              },
+              {
+                label: 'Lifetime interest saved',
+                value: formatCurrency(permanent.result.lifetimeInterestSaved),
+                detail: `Over ${term} years`
+              }
+            ].map(card => (
+              <div key={card.label} className="rounded-2xl border border-slate-200 bg-slate-50 p-4">
+                <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  {card.label}
+                </div>
+                <div className="mt-1 text-lg font-semibold text-slate-900">{card.value}</div>
+                <div className="mt-0.5 text-xs text-slate-500">{card.detail}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-4 rounded-2xl border border-slate-200 bg-slate-50 p-4 text-sm text-slate-700">
+            <div className="font-semibold text-slate-900">vs keeping the cash</div>
+            <div className="mt-1">
+              Investing the {formatCurrency(permanent.result.upfrontCost)} at {cashReturnPercent}%
+              instead, the points pay off after{' '}
+              <span className="font-semibold text-slate-900">
+                {formatMonths(permanent.result.breakEvenMonthVsCash)}
+              </span>
+              . Keeping the loan to term, buying points leaves you{' '}
+              <span
+                className={
+                  permanent.result.advantageVsCashAtTerm >= 0
+                    ? 'font-semibold text-emerald-700'
+                    : 'font-semibold text-amber-700'
+                }
+              >
+                {formatCurrency(Math.abs(permanent.result.advantageVsCashAtTerm))}{' '}
+                {permanent.result.advantageVsCashAtTerm >= 0 ? 'ahead' : 'behind'}
+              </span>{' '}
+              of investing the cash, with the monthly savings invested at the same return.
+            </div>
+          </div>
+
+          {pointsPricing === 'ladder' ? (
+            <div className="mt-4 overflow-hidden rounded-2xl border border-slate-200">
+              <table className="w-full border-collapse text-left text-sm">
+                <thead className="bg-slate-50">
+                  <tr className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                    <th className="px-4 py-3">Points</th>
+                    <th className="px-4 py-3">Rate</th>
+                    <th className="px-4 py-3">Cost</th>
+                    <th className="px-4 py-3">Savings</th>
+                    <th className="px-4 py-3">Break-even</th>
+                    <th className="px-4 py-3">vs Cash</th>
+                    <th className="px-4 py-3">Interest Saved</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-200 bg-white">
+                  {ladderAnalyses.map(({ row, result }) => (
+                    <tr
+                      key={row.id}
+                      className={
+                        row.id === effectiveLadderId ? 'bg-slate-50' : 'hover:bg-slate-50/60'
+                      }
+                    >
+                      <td className="px-4 py-3 font-medium text-slate-900">{row.points}</td>
+                      <td className="px-4 py-3 text-slate-700">{row.ratePercent.toFixed(3)}%</td>
+                      <td className="px-4 py-3 text-slate-700">
+                        {formatCurrency(result.upfrontCost)}
+                      </td>
+                      <td className="px-4 py-3 text-slate-700">
+                        {formatCurrency(result.monthlySavings)}/mo
+                      </td>
+                      <td className="px-4 py-3 text-slate-700">
+                        {formatMonths(result.breakEvenMonth)}
+                      </td>
+                      <td className="px-4 py-3 text-slate-700">
+                        {formatMonths(result.breakEvenMonthVsCash)}
+                      </td>
+                      <td className="px-4 py-3 font-semibold text-emerald-700">
+                        {formatCurrency(result.lifetimeInterestSaved)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : null}
+        </section>
+      ) : null}
+
+      <section className="mt-6 rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div>
+            <div className="text-sm font-semibold text-slate-900">Compare concession uses</div>
+            <div className="mt-1 text-xs text-slate-500">
+              The same seller credit as a temporary buydown, discount points or a lower price.
+            </div>
+          </div>
+          <label className="flex items-center gap-3">
+            <input
+              type="checkbox"
+              checked={compareConcessions}
+              onChange={e => setCompareConcessions(e.target.checked)}
+              className="h-4 w-4 accent-navy-900"
+            />
+            <span className="text-sm font-medium text-slate-800">Show comparison</span>
+          </label>
+        </div>
+
+        {compareConcessions ? (
+          <>
+            <div className="mt-4 grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+              <MoneyInput
+                id="concessionAmount"
+                label="Seller Credit"
+                value={concessionAmount}
+                onChange={setConcessionAmount}
+                helper={
+                  salePrice > 0
+                    ? `${((concessionAmount / salePrice) * 100).toFixed(2)}% of the sale price`
+                    : undefined
+                }
+              />
+              <MoneyInput
+                id="compareSalePrice"
+                label="Sale Price"
+                value={salePrice}
+                onChange={setSalePrice}
+              />
+              <NumberInput
+                id="horizonYears"
+                label="Horizon"
+                value={horizonYears}
+                onChange={setHorizonYears}
+                min={1}
+                step={1}
+                suffix="yrs"
+                helper="How long you expect to keep the loan."
+              />
+              <label className="block">
+                <div className="text-sm font-medium text-slate-800">Temporary Schedule</div>
+                <div className="mt-2">
+                  <select
+                    value={temporarySchedule}
+                    onChange={e => setTemporarySchedule(e.target.value as TemporarySchedule)}
+                    className="w-full rounded-xl border border-slate-200 bg-white px-3 py-2.5 text-sm font-medium text-slate-900 shadow-sm outline-none focus:border-navy-900 focus:ring-2 focus:ring-navy-900/10"
+                  >
+                    {(Object.keys(TEMPORARY_BUYDOWN_PRESETS) as TemporaryBuydownPreset[]).map(
+                      preset => (
+                        <option key={preset} value={preset}>
+                          {preset}
+                        </option>
+                      )
+                    )}
+                    <option value="custom">Custom</option>
+                  </select>
+                </div>
+                <div className="mt-1 text-xs text-slate-500">
+                  Steps are scaled so the subsidy uses the whole credit.
+                </div>
+              </label>
+            </div>
+
+            <div className="mt-4 grid gap-4 sm:grid-cols-3">
+              {concessionComparison.outcomes.map(outcome => {
+                const totalPaid = outcome.paymentsByYear.reduce(
+                  (sum, payment) => sum + payment * 12,
+                  0
+                )
+                const wins = concessionComparison.winnerByYear[horizon - 1] === outcome.use
+                const firstRate = outcome.ratesByYear[0] ?? 0
+                const lastRate = outcome.ratesByYear[outcome.ratesByYear.length - 1] ?? 0
+                return (
+                  <div
+                    key={outcome.use}
+                    className={
+                      wins
+                        ? 'rounded-2xl border border-emerald-300 bg-emerald-50 p-4'
+                        : 'rounded-2xl border border-slate-200 bg-slate-50 p-4'
+                    }
+                  >
+                    <div className="flex items-center justify-between text-xs font-semibold uppercase tracking-wide text-slate-500">
+                      {CONCESSION_USE_LABELS[outcome.use]}
+                      {wins ? (
+                        <span className="text-emerald-700">Best at {horizon} yrs</span>
+                      ) : null}
+                    </div>
+                    <div className="mt-1 text-lg font-semibold text-slate-900">
+                      {formatCurrency(totalPaid)}
+                    </div>
+                    <div className="mt-0.5 text-xs text-slate-500">Paid over {horizon} years</div>
+                    <div className="mt-3 grid gap-1 text-xs text-slate-600">
+                      <div className="flex items-center justify-between">
+                        <span>Rate</span>
+                        <span className="font-semibold text-slate-900">
+                          {firstRate === lastRate
+                            ? `${firstRate.toFixed(3)}%`
+                            : `${firstRate.toFixed(3)}% → ${lastRate.toFixed(3)}%`}
+                        </span>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span>Loan amount</span>
+                        <span className="font-semibold text-slate-900">
+                          {formatCurrency(outcome.loanAmount)}
+                        </span>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span>Down payment</span>
+                        <span className="font-semibold text-slate-900">
+                          {formatCurrency(outcome.cashAtClosing)}
+                        </span>
+                      </div>
+                      <div className="flex items-center justify-between">
+                        <span>Total cost at {horizon} yrs</span>
+                        <span className="font-semibold text-slate-900">
+                          {formatCurrency(outcome.costByYear[horizon - 1] ?? 0)}
+                        </span>
+                      </div>
+                    </div>
+                    {outcome.unusedConcession > 0.5 ? (
+                      <div className="mt-2 text-xs text-amber-700">
+                        {formatCurrency(outcome.unusedConcession)} of the credit can't be used.
+                      </div>
+                    ) : null}
+                  </div>
+                )
+              })}
+            </div>
+
+            <div className="mt-4 overflow-x-auto rounded-2xl border border-slate-200">
+              <table className="w-full border-collapse text-left text-sm">
+                <thead className="bg-slate-50">
+                  <tr className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                    <th className="px-4 py-3">Year</th>
+                    {concessionComparison.outcomes.map(outcome => (
+                      <th key={outcome.use} className="px-4 py-3">
+                        {CONCESSION_USE_LABELS[outcome.use]}
+                      </th>
+                    ))}
+                    <th className="px-4 py-3">Best if you leave</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-200 bg-white">
+                  {concessionComparison.winnerByYear.map((winner, i) => (
+                    <tr key={i} className="hover:bg-slate-50/60">
+                      <td className="px-4 py-3 font-medium text-slate-900">Year {i + 1}</td>
+                      {concessionComparison.outcomes.map(outcome => (
+                        <td key={outcome.use} className="px-4 py-3 text-slate-700">
+                          {formatCurrency(outcome.paymentsByYear[i])}/mo
+                        </td>
+                      ))}
+                      <td className="px-4 py-3 font-semibold text-emerald-700">
+                        {CONCESSION_USE_LABELS[winner]}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="mt-4 rounded-2xl border border-slate-200 bg-slate-50 p-4 text-xs text-slate-600">
+              Total cost is the down payment, the payments made and the balance still owed when you
+              sell or refinance. Points are priced at {reductionPerPoint}% per point, and a price
+              reduction keeps the same LTV, so it lowers both the loan and the down payment.
+            </div>
+          </>
+        ) : null}
+      </section>
     </div>
   )
 }
@@ -1,16 +1,38 @@
 import { useId, useMemo, useState } from 'react'
+import { Plus, Trash2 } from 'lucide-react'
 import {
   Cell,
   Bar,
   BarChart,
   CartesianGrid,
+  ComposedChart,
+  Line,
+  ReferenceLine,
   ResponsiveContainer,
   Tooltip,
   XAxis,
   YAxis
 } from 'recharts'
+import { ClosingCostEstimator } from './ClosingCostEstimator'
 import { CHART_ANIMATION, CyberpunkTooltip, renderCyberpunkDefs } from './charts/cyberpunk'
 import { useEmbedTheme } from '../embed/ThemeProvider'
+import { calculateApr } from '../finance/apr'
+import {
+  type ClosingCostItems,
+  DEFAULT_REFINANCE_CLOSING_COSTS,
+  estimateClosingCosts
+} from '../finance/closingCosts'
+import {
+  CLOSING_COST_OPTIONS,
+  type ClosingCostOption,
+  MAX_REFINANCE_QUOTES,
+  type RefinanceOption,
+  type RefinanceQuote,
+  analyzeCurrentLoan,
+  buildRefinanceOption,
+  compareRefinanceQuotes,
+  paymentsMadeSince
+} from '../finance/refinance'
 
 const currencyFormatter = new Intl.NumberFormat('en-US', {
   style: 'currency',
@@ -27,23 +49,48 @@ function clampNonNegative(n: number) {
   return Number.isFinite(n) ? Math.max(0, n) : 0
 }
 
-function calculateMonthlyPrincipalAndInterest(
-  principal: number,
-  annualRatePercent: number,
-  termYears: number
-) {
-  const P = clampNonNegative(principal)
-  const years = clampNonNegative(termYears)
-  const n = Math.round(years * 12)
-  if (P === 0 || n === 0) return 0
+function formatDuration(months: number) {
+  const m = Math.max(0, Math.round(months))
+  const years = Math.floor(m / 12)
+  const rest = m % 12
+  if (years === 0) return `${rest} mo`
+  return rest === 0 ? `${years} yrs` : `${years} yrs ${rest} mo`
+}
+
+function formatSignedCurrency(value: number) {
+  return value < 0 ? `-${formatCurrency(Math.abs(value))}` : formatCurrency(value)
+}
+
+function defaultLoanStartMonth() {
+  const d = new Date()
+  return `${d.getFullYear() - 3}-${String(d.getMonth() + 1).padStart(2, '0')}`
+}
+
+type LoanAgeMode = 'start-date' | 'remaining-months'
 
-  const annualRate = clampNonNegative(annualRatePercent) / 100
-  const r = annualRate / 12
+const QUOTE_FIELDS: { key: Exclude<keyof RefinanceQuote, 'id'>; label: string; step: number }[] = [
+  { key: 'ratePercent', label: 'Rate %', step: 0.125 },
+  { key: 'points', label: 'Points', step: 0.125 },
+  { key: 'lenderCredit', label: 'Credit $', step: 100 },
+  { key: 'fees', label: 'Fees $', step: 100 },
+  { key: 'termYears', label: 'Term yrs', step: 5 }
+]
 
-  if (r === 0) return P / n
+const DEFAULT_QUOTES: RefinanceQuote[] = [
+  { id: 1, ratePercent: 6.5, points: 0, lenderCredit: 0, fees: 3_000, termYears: 30 },
+  { id: 2, ratePercent: 6.125, points: 1, lenderCredit: 0, fees: 3_000, termYears: 30 },
+  { id: 3, ratePercent: 6.875, points: 0, lenderCredit: 2_500, fees: 3_000, termYears: 30 }
+]
 
-  const pow = Math.pow(1 + r, n)
-  return (P * r * pow) / (pow - 1)
+function quoteLabel(index: number) {
+  return `Quote ${String.fromCharCode(65 + index)}`
+}
+
+function simplePaybackMonths(option: RefinanceOption, currentPayment: number) {
+  const savings = currentPayment - option.monthlyPayment
+  const costs = option.upfrontCosts + option.financedCosts
+  if (costs <= 0) return 0
+  return savings > 0 ? Math.ceil(costs / savings) : Infinity
 }
 
 type MoneyInputProps = {
@@ -125,46 +172,172 @@ function NumberInput({
 
 export function RefinanceCalculator() {
   const theme = useEmbedTheme()
-  const [originalLoanBalance, setOriginalLoanBalance] = useState(320_000)
+  const [originalLoanAmount, setOriginalLoanAmount] = useState(340_000)
+  const [originalTermYears, setOriginalTermYears] = useState(30)
   const [currentRate, setCurrentRate] = useState(7.25)
+  const [loanAgeMode, setLoanAgeMode] = useState<LoanAgeMode>('start-date')
+  const [loanStartMonth, setLoanStartMonth] = useState(defaultLoanStartMonth)
+  const [remainingMonthsInput, setRemainingMonthsInput] = useState(324)
   const [newRate, setNewRate] = useState(6.5)
   const [newTermYears, setNewTermYears] = useState(30)
-  const [closingCosts, setClosingCosts] = useState(6_000)
-
-  const { oldMonthlyPayment, newMonthlyPayment, monthlySavings, breakEvenMonths } = useMemo(() => {
-    // Note: since we don't have an explicit "remaining term" input, we use the same term for both
-    // old and new payments so the comparison is apples-to-apples.
-    const oldPay = calculateMonthlyPrincipalAndInterest(
-      originalLoanBalance,
-      currentRate,
-      newTermYears
-    )
-    const newPay = calculateMonthlyPrincipalAndInterest(
-      originalLoanBalance,
-      newRate,
-      newTermYears
-    )
-    const savings = oldPay - newPay
-    const months =
-      savings > 0 ? Math.ceil(clampNonNegative(closingCosts) / savings) : Infinity
-    return {
-      oldMonthlyPayment: oldPay,
-      newMonthlyPayment: newPay,
-      monthlySavings: savings,
-      breakEvenMonths: months
+  const [horizonYears, setHorizonYears] = useState(7)
+  const [discountRatePercent, setDiscountRatePercent] = useState(4)
+  const [annualPropertyTax, setAnnualPropertyTax] = useState(4_000)
+  const [annualHomeInsurance, setAnnualHomeInsurance] = useState(1_200)
+  const [closingCostItems, setClosingCostItems] = useState<ClosingCostItems>(
+    DEFAULT_REFINANCE_CLOSING_COSTS
+  )
+  const [closingCostOption, setClosingCostOption] = useState<ClosingCostOption>('cash')
+  const [lenderCreditRatePremium, setLenderCreditRatePremium] = useState(0.375)
+  const [quotes, setQuotes] = useState<RefinanceQuote[]>(DEFAULT_QUOTES)
+
+  function addQuote() {
+    setQuotes(list => {
+      if (list.length >= MAX_REFINANCE_QUOTES) return list
+      const last = list[list.length - 1] ?? DEFAULT_QUOTES[0]
+      return [...list, { ...last, id: Math.max(0, ...list.map(q => q.id)) + 1 }]
+    })
+  }
+
+  function updateQuote(id: number, patch: Partial<Omit<RefinanceQuote, 'id'>>) {
+    setQuotes(list => list.map(q => (q.id === id ? { ...q, ...patch } : q)))
+  }
+
+  function removeQuote(id: number) {
+    setQuotes(list => (list.length > 1 ? list.filter(q => q.id !== id) : list))
+  }
+
+  const currentLoan = useMemo(() => {
+    const termMonths = Math.round(clampNonNegative(originalTermYears) * 12)
+    const paymentsMade =
+      loanAgeMode === 'start-date'
+        ? (paymentsMadeSince(loanStartMonth) ?? 0)
+        : termMonths - Math.min(termMonths, Math.round(remainingMonthsInput))
+    return analyzeCurrentLoan({
+      originalAmount: originalLoanAmount,
+      annualRatePercent: currentRate,
+      termYears: originalTermYears,
+      paymentsMade
+    })
+  }, [
+    currentRate,
+    loanAgeMode,
+    loanStartMonth,
+    originalLoanAmount,
+    originalTermYears,
+    remainingMonthsInput
+  ])
+  const closingCostEstimate = useMemo(
+    () =>
+      estimateClosingCosts(closingCostItems, {
+        loanAmount: currentLoan.balance,
+        salePrice: 0,
+        annualRatePercent: newRate,
+        annualPropertyTax,
+        annualInsurance: annualHomeInsurance
+      }),
+    [annualHomeInsurance, annualPropertyTax, closingCostItems, currentLoan, newRate]
+  )
+  // Prepaids and escrow deposits fund bills the borrower owes anyway, so only the cost of the new
+  // loan itself has to be earned back; they are due in cash whichever way that cost is handled.
+  const financingCosts = closingCostEstimate.costOfFinancing
+  const prepaidsAndEscrow = closingCostEstimate.total - financingCosts
+
+  const options = useMemo(() => {
+    const input = {
+      current: currentLoan,
+      newRatePercent: newRate,
+      termYears: newTermYears,
+      financingCosts,
+      lenderCreditRatePremium,
+      horizonMonths: Math.round(clampNonNegative(horizonYears) * 12),
+      discountRatePercent
     }
-  }, [closingCosts, currentRate, newRate, newTermYears, originalLoanBalance])
+    return CLOSING_COST_OPTIONS.map(option => buildRefinanceOption(option.key, input))
+  }, [
+    currentLoan,
+    discountRatePercent,
+    financingCosts,
+    horizonYears,
+    lenderCreditRatePremium,
+    newRate,
+    newTermYears
+  ])
+  const selected = options.find(o => o.option === closingCostOption) ?? options[0]
+  const newSchedule = selected.schedule
+  const horizon = selected.horizon
+
+  const oldMonthlyPayment = currentLoan.monthlyPayment
+  const newMonthlyPayment = newSchedule.monthlyPayment
+  const monthlySavings = oldMonthlyPayment - newMonthlyPayment
+  // Simple payback ignores equity build-up and the time value of money; the horizon analysis is
+  // what the headline break-even uses.
+  const simplePayback = simplePaybackMonths(selected, oldMonthlyPayment)
+  const breakEvenMonths = horizon.breakEvenMonth
+
+  // Interest from today to payoff either way. A new full-length term restarts amortization, so a
+  // lower payment can still cost more interest than finishing the current loan.
+  const interestDifference = currentLoan.remainingInterest - newSchedule.totalInterest
+  const extendedMonths = newSchedule.payoffMonth - currentLoan.remainingMonths
+
+  const newLoanApr = useMemo(() => {
+    // A lender credit pays the origination charges, so they stop counting as finance charges.
+    const creditedCharges = Math.min(
+      selected.lenderCredit,
+      closingCostEstimate.originationFee + closingCostEstimate.pointsCost
+    )
+    const prepaidFinanceCharges = closingCostEstimate.prepaidFinanceCharges - creditedCharges
+    if (prepaidFinanceCharges <= 0) return null
+    return calculateApr({
+      loanAmount: selected.loanAmount,
+      prepaidFinanceCharges,
+      payments: selected.schedule.rows.map(row => row.payment)
+    })
+  }, [closingCostEstimate, selected])
 
   const chartId = `cp-refinance-${useId().replace(/[^a-zA-Z0-9_-]/g, '')}`
   const chartData = useMemo(
     () => [
-      { name: 'Old', payment: oldMonthlyPayment, fill: `url(#${chartId}-grad-secondary)` },
+      { name: 'Current', payment: oldMonthlyPayment, fill: `url(#${chartId}-grad-secondary)` },
       { name: 'New', payment: newMonthlyPayment, fill: `url(#${chartId}-grad-primary)` }
     ],
     [newMonthlyPayment, oldMonthlyPayment]
   )
 
-  const showBreakEven = Number.isFinite(breakEvenMonths) && breakEvenMonths > 0
+  const horizonChartId = `${chartId}-horizon`
+  const quotesChartId = `${chartId}-quotes`
+
+  const quoteAnalyses = useMemo(
+    () =>
+      compareRefinanceQuotes(
+        currentLoan.balance,
+        quotes,
+        Math.round(clampNonNegative(horizonYears) * 12)
+      ),
+    [currentLoan, horizonYears, quotes]
+  )
+  const rankedQuotes = quoteAnalyses
+    .map((analysis, index) => ({ analysis, index }))
+    .sort((a, b) => a.analysis.rank - b.analysis.rank)
+  const bestQuoteCost = rankedQuotes[0]?.analysis.totalCostAtHorizon ?? 0
+  const quoteChartData = useMemo(() => {
+    const months = quoteAnalyses[0]?.cumulativeCost.length ?? 0
+    return Array.from({ length: months }, (_, month) => {
+      const point: Record<string, number> = { month }
+      quoteAnalyses.forEach(analysis => {
+        point[`q${analysis.quote.id}`] = analysis.cumulativeCost[month]
+      })
+      return point
+    })
+  }, [quoteAnalyses])
+  const quoteColors = [
+    theme.chart.primaryTo,
+    theme.chart.secondaryTo,
+    theme.chart.accentTo,
+    theme.chart.neutralTo,
+    theme.chart.primaryFrom,
+    theme.chart.secondaryFrom
+  ]
 
   return (
     <div className="rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface)] p-6 shadow-sm text-[var(--mc-text)]">
@@ -185,13 +358,25 @@ export function RefinanceCalculator() {
         <section className="rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface)] p-5 shadow-sm">
           <div className="mb-4 text-sm font-semibold text-[var(--mc-text)]">Inputs</div>
           <div className="grid gap-4">
+            <div className="text-xs font-semibold uppercase tracking-wide text-[var(--mc-muted)]">
+              Current loan
+            </div>
             <MoneyInput
-              id="origBalance"
-              label="Original Loan Balance"
-              value={originalLoanBalance}
-              onChange={setOriginalLoanBalance}
+              id="origLoanAmount"
+              label="Original Loan Amount"
+              value={originalLoanAmount}
+              onChange={setOriginalLoanAmount}
             />
             <div className="grid gap-4 sm:grid-cols-2">
+              <NumberInput
+                id="origTerm"
+                label="Original Term"
+                value={originalTermYears}
+                onChange={setOriginalTermYears}
+                min={1}
+                step={1}
+                suffix="yrs"
+              />
               <NumberInput
                 id="currentRate"
                 label="Current Rate"
@@ -201,6 +386,64 @@ export function RefinanceCalculator() {
                 step={0.01}
                 suffix="%"
               />
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <label className="block">
+                <div className="text-sm font-medium text-[color:var(--mc-text)]/85">
+                  Loan Age By
+                </div>
+                <select
+                  value={loanAgeMode}
+                  onChange={e => setLoanAgeMode(e.target.value as LoanAgeMode)}
+                  className="mt-2 w-full rounded-xl border border-[var(--mc-input-border)] bg-[var(--mc-input-bg)] px-3 py-2.5 text-sm font-medium text-[var(--mc-text)] shadow-sm outline-none focus:border-[var(--mc-primary)] focus:ring-2 focus:ring-[var(--mc-ring)]"
+                >
+                  <option value="start-date">First payment date</option>
+                  <option value="remaining-months">Remaining months</option>
+                </select>
+              </label>
+              {loanAgeMode === 'start-date' ? (
+                <label className="block">
+                  <div className="text-sm font-medium text-[color:var(--mc-text)]/85">
+                    First Payment
+                  </div>
+                  <input
+                    type="month"
+                    value={loanStartMonth}
+                    onChange={e => setLoanStartMonth(e.target.value || defaultLoanStartMonth())}
+                    className="mt-2 w-full rounded-xl border border-[var(--mc-input-border)] bg-[var(--mc-input-bg)] px-3 py-2.5 text-sm font-medium text-[var(--mc-text)] shadow-sm outline-none focus:border-[var(--mc-primary)] focus:ring-2 focus:ring-[var(--mc-ring)]"
+                    aria-label="First Payment"
+                  />
+                </label>
+              ) : (
+                <NumberInput
+                  id="remainingMonths"
+                  label="Remaining Months"
+                  value={remainingMonthsInput}
+                  onChange={setRemainingMonthsInput}
+                  min={0}
+                  step={1}
+                  suffix="mo"
+                />
+              )}
+            </div>
+            <div className="rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface-muted)] p-4">
+              <div className="text-xs font-semibold uppercase tracking-wide text-[var(--mc-muted)]">
+                Current Balance
+              </div>
+              <div className="mt-1 text-lg font-semibold text-[var(--mc-text)]">
+                {formatCurrency(currentLoan.balance)}
+              </div>
+              <div className="mt-1 text-xs text-[var(--mc-muted)]">
+                {currentLoan.paymentsMade} payments made ·{' '}
+                {formatDuration(currentLoan.remainingMonths)} remaining at{' '}
+                {formatCurrency(currentLoan.monthlyPayment)}/mo.
+              </div>
+            </div>
+
+            <div className="mt-2 text-xs font-semibold uppercase tracking-wide text-[var(--mc-muted)]">
+              New loan
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
               <NumberInput
                 id="newRate"
                 label="New Rate"
@@ -210,23 +453,91 @@ export function RefinanceCalculator() {
                 step={0.01}
                 suffix="%"
               />
+              <NumberInput
+                id="newTerm"
+                label="New Term"
+                value={newTermYears}
+                onChange={setNewTermYears}
+                min={1}
+                step={1}
+                suffix="yrs"
+              />
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <NumberInput
+                id="horizonYears"
+                label="Years in Home"
+                value={horizonYears}
+                onChange={setHorizonYears}
+                min={1}
+                step={1}
+                suffix="yrs"
+              />
+              <NumberInput
+                id="discountRate"
+                label="Discount Rate"
+                value={discountRatePercent}
+                onChange={setDiscountRatePercent}
+                min={0}
+                step={0.25}
+                suffix="%"
+                helper="What your cash could earn elsewhere."
+              />
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <MoneyInput
+                id="refiPropertyTax"
+                label="Property Tax (Annual)"
+                value={annualPropertyTax}
+                onChange={setAnnualPropertyTax}
+              />
+              <MoneyInput
+                id="refiInsurance"
+                label="Home Insurance (Annual)"
+                value={annualHomeInsurance}
+                onChange={setAnnualHomeInsurance}
+              />
+            </div>
+            <div className="rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface-muted)] p-4">
+              <div className="text-xs font-semibold uppercase tracking-wide text-[var(--mc-muted)]">
+                Closing Costs
+              </div>
+              <div className="mt-1 text-lg font-semibold text-[var(--mc-text)]">
+                {formatCurrency(financingCosts)}
+              </div>
+              <div className="mt-1 text-xs text-[var(--mc-muted)]">
+                Loan costs and recording fees, itemized below. Prepaids and escrow of{' '}
+                {formatCurrency(prepaidsAndEscrow)} are due at closing either way.
+              </div>
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <label className="block">
+                <div className="text-sm font-medium text-[color:var(--mc-text)]/85">
+                  Pay Closing Costs By
+                </div>
+                <select
+                  value={closingCostOption}
+                  onChange={e => setClosingCostOption(e.target.value as ClosingCostOption)}
+                  className="mt-2 w-full rounded-xl border border-[var(--mc-input-border)] bg-[var(--mc-input-bg)] px-3 py-2.5 text-sm font-medium text-[var(--mc-text)] shadow-sm outline-none focus:border-[var(--mc-primary)] focus:ring-2 focus:ring-[var(--mc-ring)]"
+                >
+                  {CLOSING_COST_OPTIONS.map(option => (
+                    <option key={option.key} value={option.key}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <NumberInput
+                id="lenderCreditPremium"
+                label="No-cost Rate Premium"
+                value={lenderCreditRatePremium}
+                onChange={setLenderCreditRatePremium}
+                min={0}
+                step={0.125}
+                suffix="%"
+                helper="Rate increase for a credit covering the costs."
+              />
             </div>
-            <NumberInput
-              id="newTerm"
-              label="New Term"
-              value={newTermYears}
-              onChange={setNewTermYears}
-              min={1}
-              step={1}
-              suffix="yrs"
-              helper="We use this same term for both Old and New payments for a clean comparison."
-            />
-            <MoneyInput
-              id="closingCosts"
-              label="Closing Costs"
-              value={closingCosts}
-              onChange={setClosingCosts}
-            />
           </div>
         </section>
 
@@ -246,7 +557,7 @@ export function RefinanceCalculator() {
                     : `-${formatCurrency(Math.abs(monthlySavings))}`}
                 </div>
                 <div className="mt-1 text-xs text-[var(--mc-muted)]">
-                  Old payment minus new payment.
+                  Current payment minus new payment.
                 </div>
               </div>
               <div>
@@ -254,17 +565,20 @@ export function RefinanceCalculator() {
                   Break-even Point
                 </div>
                 <div className="mt-1 text-2xl font-semibold tracking-tight text-[var(--mc-text)]">
-                  {showBreakEven ? `${breakEvenMonths} mo` : 'N/A'}
+                  {breakEvenMonths !== null ? formatDuration(breakEvenMonths) : 'Not reached'}
                 </div>
                 <div className="mt-1 text-xs text-[var(--mc-muted)]">
-                  Months to recover closing costs.
+                  {breakEvenMonths !== null
+                    ? 'When the discounted net benefit turns positive for good.'
+                    : `Refinancing doesn't pay off within ${horizonYears} years.`}{' '}
+                  Simple payback: {Number.isFinite(simplePayback) ? `${simplePayback} mo` : 'N/A'}.
                 </div>
               </div>
             </div>
 
             <div className="mt-4 grid gap-2 text-sm">
               <div className="flex items-center justify-between">
-                <span className="font-medium text-[color:var(--mc-text)]/80">Old Monthly Payment</span>
+                <span className="font-medium text-[color:var(--mc-text)]/80">Current Monthly Payment</span>
                 <span className="font-semibold text-[var(--mc-text)]">
                   {formatCurrency(oldMonthlyPayment)}
                 </span>
@@ -275,6 +589,64 @@ export function RefinanceCalculator() {
                   {formatCurrency(newMonthlyPayment)}
                 </span>
               </div>
+              {newLoanApr !== null ? (
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-[color:var(--mc-text)]/80">New Loan APR</span>
+                  <span className="font-semibold text-[var(--mc-text)]">
+                    {newLoanApr.toFixed(3)}%
+                    <span className="ml-1 text-xs font-medium text-[var(--mc-muted)]">
+                      ({newRate.toFixed(3)}% note rate)
+                    </span>
+                  </span>
+                </div>
+              ) : null}
+            </div>
+
+            <div className="mt-4 grid gap-2 border-t border-[var(--mc-border)] pt-4 text-sm">
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-[color:var(--mc-text)]/80">
+                  Remaining Interest, Keep Loan
+                </span>
+                <span className="font-semibold text-[var(--mc-text)]">
+                  {formatCurrency(currentLoan.remainingInterest)}
+                  <span className="ml-1 text-xs font-medium text-[var(--mc-muted)]">
+                    over {formatDuration(currentLoan.remainingMonths)}
+                  </span>
+                </span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-[color:var(--mc-text)]/80">
+                  Total Interest, Refinance
+                </span>
+                <span className="font-semibold text-[var(--mc-text)]">
+                  {formatCurrency(newSchedule.totalInterest)}
+                  <span className="ml-1 text-xs font-medium text-[var(--mc-muted)]">
+                    over {formatDuration(newSchedule.payoffMonth)}
+                  </span>
+                </span>
+              </div>
+              <div className="mt-1 rounded-xl border border-[var(--mc-border)] bg-[var(--mc-surface)] px-3 py-2 text-xs">
+                {interestDifference >= 0 ? (
+                  <span className="font-semibold text-emerald-700">
+                    Refinancing saves {formatCurrency(interestDifference)} in interest.
+                  </span>
+                ) : (
+                  <span className="font-semibold text-amber-700">
+                    Refinancing costs {formatCurrency(Math.abs(interestDifference))} more in
+                    interest.
+                  </span>
+                )}{' '}
+                {extendedMonths > 0 ? (
+                  <span className="text-[var(--mc-muted)]">
+                    Resetting the clock adds {formatDuration(extendedMonths)} of payments beyond
+                    the current payoff date.
+                  </span>
+                ) : extendedMonths < 0 ? (
+                  <span className="text-[var(--mc-muted)]">
+                    The new loan pays off {formatDuration(Math.abs(extendedMonths))} sooner.
+                  </span>
+                ) : null}
+              </div>
             </div>
           </div>
 
@@ -337,6 +709,380 @@ export function RefinanceCalculator() {
           </div>
         </section>
       </div>
+
+      <section className="mt-6 rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface)] p-5 shadow-sm">
+        <div className="mb-4">
+          <div className="text-sm font-semibold text-[var(--mc-text)]">Closing cost options</div>
+          <div className="mt-1 text-xs text-[var(--mc-muted)]">
+            The same refinance with costs paid in cash, financed into the loan, or covered by a
+            lender credit at a higher rate. Break-even uses the {horizonYears}-year discounted
+            analysis.
+          </div>
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-3">
+          {options.map(option => {
+            const isSelected = option.option === selected.option
+            const payback = simplePaybackMonths(option, oldMonthlyPayment)
+            const rows = [
+              { label: 'Rate', value: `${option.ratePercent.toFixed(3)}%` },
+              { label: 'New loan amount', value: formatCurrency(option.loanAmount) },
+              { label: 'Monthly payment', value: formatCurrency(option.monthlyPayment) },
+              {
+                label: 'Cash to close',
+                value: formatCurrency(option.upfrontCosts + prepaidsAndEscrow)
+              },
+              {
+                label: 'Break-even',
+                value:
+                  option.horizon.breakEvenMonth !== null
+                    ? formatDuration(option.horizon.breakEvenMonth)
+                    : 'Not reached'
+              },
+              {
+                label: 'Simple payback',
+                value:
+                  payback === 0 ? 'Immediate' : Number.isFinite(payback) ? `${payback} mo` : 'N/A'
+              },
+              {
+                label: `Net benefit at ${horizonYears} yrs`,
+                value: formatSignedCurrency(option.horizon.netBenefitAtHorizon)
+              }
+            ]
+            return (
+              <button
+                key={option.option}
+                type="button"
+                onClick={() => setClosingCostOption(option.option)}
+                className={[
+                  'rounded-2xl border p-4 text-left shadow-sm transition',
+                  isSelected
+                    ? 'border-[var(--mc-primary)] bg-[var(--mc-surface-muted)] ring-2 ring-[var(--mc-ring)]'
+                    : 'border-[var(--mc-border)] bg-[var(--mc-surface)] hover:bg-[var(--mc-surface-muted)]'
+                ].join(' ')}
+              >
+                <div className="text-sm font-semibold text-[var(--mc-text)]">
+                  {CLOSING_COST_OPTIONS.find(o => o.key === option.option)?.label}
+                </div>
+                <div className="mt-3 grid gap-1.5 text-sm">
+                  {rows.map(row => (
+                    <div key={row.label} className="flex items-center justify-between gap-3">
+                      <span className="text-[color:var(--mc-text)]/75">{row.label}</span>
+                      <span className="font-semibold text-[var(--mc-text)]">{row.value}</span>
+                    </div>
+                  ))}
+                </div>
+              </button>
+            )
+          })}
+        </div>
+      </section>
+
+      <section className="mt-6 rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface)] p-5 shadow-sm">
+        <div className="mb-4 flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <div className="text-sm font-semibold text-[var(--mc-text)]">Net benefit over time</div>
+            <div className="mt-1 text-xs text-[var(--mc-muted)]">
+              Discounted payment savings plus the difference in loan balance, minus closing costs
+              paid in cash, if you sold or paid off at each month.
+            </div>
+          </div>
+          <div className="text-right">
+            <div className="text-xs font-semibold uppercase tracking-wide text-[var(--mc-muted)]">
+              Net Benefit at {horizonYears} yrs
+            </div>
+            <div
+              className={[
+                'text-lg font-semibold',
+                horizon.netBenefitAtHorizon >= 0 ? 'text-emerald-700' : 'text-amber-700'
+              ].join(' ')}
+            >
+              {formatSignedCurrency(horizon.netBenefitAtHorizon)}
+            </div>
+          </div>
+        </div>
+
+        <div className="h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart
+              key={horizonChartId}
+              data={horizon.points}
+              margin={{ left: 8, right: 16, top: 8, bottom: 8 }}
+            >
+              {renderCyberpunkDefs(horizonChartId, theme.chart)}
+              <CartesianGrid strokeDasharray="4 8" stroke="rgba(148,163,184,0.25)" />
+              <XAxis
+                dataKey="month"
+                type="number"
+                domain={[1, 'dataMax']}
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={v => `Yr ${Math.ceil(Number(v) / 12)}`}
+                tick={{ fill: 'rgba(148,163,184,0.9)', fontSize: 12 }}
+              />
+              <YAxis
+                tickLine={false}
+                axisLine={false}
+                width={80}
+                tickFormatter={v => formatSignedCurrency(Number(v))}
+                tick={{ fill: 'rgba(148,163,184,0.9)', fontSize: 12 }}
+              />
+              <Tooltip
+                content={
+                  <CyberpunkTooltip
+                    labelFormatter={l => `Month ${String(l)}`}
+                    valueFormatter={v =>
+                      formatSignedCurrency(typeof v === 'number' ? v : Number(v))
+                    }
+                  />
+                }
+                cursor={{ stroke: 'rgba(79,172,254,0.3)', strokeWidth: 1 }}
+              />
+              <ReferenceLine y={0} stroke="rgba(148,163,184,0.6)" />
+              {breakEvenMonths !== null ? (
+                <ReferenceLine
+                  x={breakEvenMonths}
+                  stroke={theme.chart.accentTo}
+                  strokeDasharray="4 4"
+                  label={{
+                    value: 'Break-even',
+                    position: 'insideTopLeft',
+                    fill: 'rgba(148,163,184,0.9)',
+                    fontSize: 12
+                  }}
+                />
+              ) : null}
+              <Line
+                type="monotone"
+                dataKey="cumulativePaymentSavings"
+                name="Payment Savings (undiscounted)"
+                stroke={`url(#${horizonChartId}-grad-secondary)`}
+                strokeWidth={2}
+                strokeDasharray="6 6"
+                dot={false}
+                isAnimationActive
+                animationDuration={CHART_ANIMATION.durationMs}
+                animationEasing={CHART_ANIMATION.easing}
+                animationBegin={50}
+              />
+              <Line
+                type="monotone"
+                dataKey="netBenefit"
+                name="Net Benefit"
+                stroke={`url(#${horizonChartId}-grad-primary)`}
+                strokeWidth={3}
+                dot={false}
+                isAnimationActive
+                animationDuration={CHART_ANIMATION.durationMs}
+                animationEasing={CHART_ANIMATION.easing}
+                animationBegin={50}
+                activeDot={{
+                  r: 6,
+                  fill: 'rgba(15,23,42,0.95)',
+                  stroke: theme.chart.primaryFrom,
+                  strokeWidth: 2,
+                  filter: `url(#${horizonChartId}-glow)`
+                }}
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      </section>
+
+      <section className="mt-6 rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface)] p-5 shadow-sm">
+        <div className="mb-4 flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <div className="text-sm font-semibold text-[var(--mc-text)]">Compare lender quotes</div>
+            <div className="mt-1 text-xs text-[var(--mc-muted)]">
+              Each quote refinances the {formatCurrency(currentLoan.balance)} balance. Cost is
+              points and fees, less any lender credit, plus interest paid over {horizonYears} years.
+            </div>
+          </div>
+          <button
+            type="button"
+            onClick={addQuote}
+            disabled={quotes.length >= MAX_REFINANCE_QUOTES}
+            className="inline-flex items-center gap-1.5 rounded-xl border border-[var(--mc-border)] bg-[var(--mc-surface)] px-3 py-1.5 text-xs font-semibold text-[color:var(--mc-text)]/80 shadow-sm hover:bg-[var(--mc-surface-muted)] disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            <Plus className="h-3.5 w-3.5" />
+            Add quote
+          </button>
+        </div>
+
+        <div className="overflow-x-auto rounded-2xl border border-[var(--mc-border)]">
+          <table className="w-full border-collapse text-left text-sm">
+            <thead className="bg-[var(--mc-surface-muted)]">
+              <tr className="text-xs font-semibold uppercase tracking-wide text-[var(--mc-muted)]">
+                <th className="px-3 py-3">Quote</th>
+                {QUOTE_FIELDS.map(field => (
+                  <th key={field.key} className="px-3 py-3">
+                    {field.label}
+                  </th>
+                ))}
+                <th className="px-3 py-3" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-[var(--mc-border)] bg-[var(--mc-surface)]">
+              {quotes.map((quote, index) => (
+                <tr key={quote.id}>
+                  <td className="px-3 py-2 font-medium text-[var(--mc-text)]">
+                    <span className="inline-flex items-center gap-2">
+                      <span
+                        className="h-2.5 w-2.5 rounded-full"
+                        style={{ backgroundColor: quoteColors[index % quoteColors.length] }}
+                      />
+                      {quoteLabel(index)}
+                    </span>
+                  </td>
+                  {QUOTE_FIELDS.map(field => (
+                    <td key={field.key} className="px-3 py-2">
+                      <input
+                        type="number"
+                        inputMode="decimal"
+                        min={0}
+                        step={field.step}
+                        value={Number.isFinite(quote[field.key]) ? quote[field.key] : 0}
+                        onChange={e =>
+                          updateQuote(quote.id, {
+                            [field.key]: clampNonNegative(Number(e.target.value))
+                          })
+                        }
+                        className="w-24 rounded-lg border border-[var(--mc-input-border)] bg-[var(--mc-input-bg)] px-2 py-1.5 text-sm font-medium text-[var(--mc-text)] outline-none focus:border-[var(--mc-primary)] focus:ring-2 focus:ring-[var(--mc-ring)]"
+                        aria-label={`${quoteLabel(index)} ${field.label}`}
+                      />
+                    </td>
+                  ))}
+                  <td className="px-3 py-2 text-right">
+                    <button
+                      type="button"
+                      onClick={() => removeQuote(quote.id)}
+                      disabled={quotes.length <= 1}
+                      className="rounded-lg border border-[var(--mc-border)] bg-[var(--mc-surface)] p-2 text-[var(--mc-muted)] shadow-sm hover:text-[var(--mc-text)] disabled:cursor-not-allowed disabled:opacity-50"
+                      aria-label={`Remove ${quoteLabel(index)}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="mt-6 grid gap-6 lg:grid-cols-2">
+          <div className="overflow-hidden rounded-2xl border border-[var(--mc-border)]">
+            <table className="w-full border-collapse text-left text-sm">
+              <thead className="bg-[var(--mc-surface-muted)]">
+                <tr className="text-xs font-semibold uppercase tracking-wide text-[var(--mc-muted)]">
+                  <th className="px-3 py-3">Rank</th>
+                  <th className="px-3 py-3">Quote</th>
+                  <th className="px-3 py-3 text-right">Payment</th>
+                  <th className="px-3 py-3 text-right">Upfront</th>
+                  <th className="px-3 py-3 text-right">Cost at {horizonYears} yrs</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-[var(--mc-border)] bg-[var(--mc-surface)]">
+                {rankedQuotes.map(({ analysis, index }) => (
+                  <tr
+                    key={analysis.quote.id}
+                    className={analysis.rank === 1 ? 'bg-[var(--mc-surface-muted)]' : undefined}
+                  >
+                    <td className="px-3 py-2 font-semibold text-[var(--mc-text)]">
+                      #{analysis.rank}
+                    </td>
+                    <td className="px-3 py-2 text-[color:var(--mc-text)]/80">
+                      {quoteLabel(index)} · {analysis.quote.ratePercent.toFixed(3)}%
+                    </td>
+                    <td className="px-3 py-2 text-right text-[color:var(--mc-text)]/80">
+                      {formatCurrency(analysis.monthlyPayment)}
+                    </td>
+                    <td className="px-3 py-2 text-right text-[color:var(--mc-text)]/80">
+                      {formatSignedCurrency(analysis.upfrontCost)}
+                    </td>
+                    <td className="px-3 py-2 text-right font-semibold text-[var(--mc-text)]">
+                      {formatCurrency(analysis.totalCostAtHorizon)}
+                      {analysis.rank > 1 ? (
+                        <div className="text-xs font-medium text-amber-700">
+                          +{formatCurrency(analysis.totalCostAtHorizon - bestQuoteCost)}
+                        </div>
+                      ) : null}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart
+                key={quotesChartId}
+                data={quoteChartData}
+                margin={{ left: 8, right: 16, top: 8, bottom: 8 }}
+              >
+                <CartesianGrid strokeDasharray="4 8" stroke="rgba(148,163,184,0.25)" />
+                <XAxis
+                  dataKey="month"
+                  type="number"
+                  domain={[0, 'dataMax']}
+                  tickLine={false}
+                  axisLine={false}
+                  tickFormatter={v => `Yr ${Math.round(Number(v) / 12)}`}
+                  tick={{ fill: 'rgba(148,163,184,0.9)', fontSize: 12 }}
+                />
+                <YAxis
+                  tickLine={false}
+                  axisLine={false}
+                  width={80}
+                  tickFormatter={v => formatSignedCurrency(Number(v))}
+                  tick={{ fill: 'rgba(148,163,184,0.9)', fontSize: 12 }}
+                />
+                <Tooltip
+                  content={
+                    <CyberpunkTooltip
+                      labelFormatter={l => `Month ${String(l)}`}
+                      valueFormatter={v =>
+                        formatSignedCurrency(typeof v === 'number' ? v : Number(v))
+                      }
+                    />
+                  }
+                  cursor={{ stroke: 'rgba(79,172,254,0.3)', strokeWidth: 1 }}
+                />
+                {quoteAnalyses.map((analysis, index) => (
+                  <Line
+                    key={analysis.quote.id}
+                    type="monotone"
+                    dataKey={`q${analysis.quote.id}`}
+                    name={quoteLabel(index)}
+                    stroke={quoteColors[index % quoteColors.length]}
+                    strokeWidth={analysis.rank === 1 ? 3 : 2}
+                    dot={false}
+                    isAnimationActive
+                    animationDuration={CHART_ANIMATION.durationMs}
+                    animationEasing={CHART_ANIMATION.easing}
+                    animationBegin={50}
+                  />
+                ))}
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </section>
+
+      <section className="mt-6 rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface)] p-5 shadow-sm">
+        <div className="mb-4">
+          <div className="text-sm font-semibold text-[var(--mc-text)]">Closing costs</div>
+          <div className="mt-1 text-xs text-[var(--mc-muted)]">
+            Estimated fees, prepaids and escrow deposits, grouped as on a Loan Estimate.
+          </div>
+        </div>
+        <ClosingCostEstimator
+          items={closingCostItems}
+          onChange={setClosingCostItems}
+          estimate={closingCostEstimate}
+          hiddenFields={['transferTaxPercent', 'insurancePremiumMonths']}
+        />
+      </section>
     </div>
   )
 }
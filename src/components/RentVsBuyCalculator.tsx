@@ -1,4 +1,5 @@
-import { useId, useMemo, useState } from 'react'
+import { useEffect, useId, useMemo, useRef, useState } from 'react'
+import { ChevronDown } from 'lucide-react'
 import {
   CartesianGrid,
   Line,
@@ -11,6 +12,15 @@ import {
 } from 'recharts'
 import { CHART_ANIMATION, CyberpunkTooltip, renderCyberpunkDefs } from './charts/cyberpunk'
 import { useEmbedTheme } from '../embed/ThemeProvider'
+import {
+  DEFAULT_RENT_VS_BUY_ASSUMPTIONS,
+  projectRentVsBuy,
+  type RentVsBuyAssumptions
+} from '../finance/rentVsBuy'
+import { type GoalSeekVariable, goalSeekRentVsBuy } from '../finance/rentVsBuyGoalSeek'
+import { MAX_SIMULATION_PATHS, type RentVsBuySimulation } from '../finance/rentVsBuySimulation'
+import { FILING_STATUS_RULES, type FilingStatus } from '../finance/tax'
+import type { SimulationRequest, SimulationResponse } from '../workers/rentVsBuySimulation.worker'
 
 const currencyFormatter = new Intl.NumberFormat('en-US', {
   style: 'currency',
@@ -23,22 +33,12 @@ function formatCurrency(value: number) {
   return currencyFormatter.format(Math.max(0, Math.round(value)))
 }
 
-function clampNonNegative(n: number) {
-  return Number.isFinite(n) ? Math.max(0, n) : 0
+function formatSignedCurrency(value: number) {
+  return value < 0 ? `-${formatCurrency(Math.abs(value))}` : formatCurrency(value)
 }
 
-function calculateMonthlyPayment(principal: number, annualRatePercent: number, termYears: number) {
-  const P = clampNonNegative(principal)
-  const years = clampNonNegative(termYears)
-  const n = Math.round(years * 12)
-  if (P === 0 || n === 0) return 0
-
-  const annualRate = clampNonNegative(annualRatePercent) / 100
-  const r = annualRate / 12
-  if (r === 0) return P / n
-
-  const pow = Math.pow(1 + r, n)
-  return (P * r * pow) / (pow - 1)
+function clampNonNegative(n: number) {
+  return Number.isFinite(n) ? Math.max(0, n) : 0
 }
 
 type MoneyInputProps = {
@@ -118,119 +118,332 @@ function NumberInput({
   )
 }
 
-type DataPoint = {
-  year: number
-  rentCost: number
-  buyNetCost: number
+type NumericAssumptionKey = Exclude<keyof RentVsBuyAssumptions, 'filingStatus'>
+
+type AssumptionField = {
+  key: NumericAssumptionKey
+  label: string
+  suffix?: string
+  step: number
+  money?: boolean
+  helper?: string
+}
+
+const ASSUMPTION_FIELDS: AssumptionField[] = [
+  { key: 'downPaymentPercent', label: 'Down Payment', suffix: '%', step: 0.5 },
+  { key: 'mortgageRatePercent', label: 'Mortgage Rate', suffix: '%', step: 0.01 },
+  { key: 'loanTermYears', label: 'Loan Term', suffix: 'yrs', step: 1 },
+  {
+    key: 'propertyTaxPercent',
+    label: 'Property Tax',
+    suffix: '%/yr',
+    step: 0.05,
+    helper: 'Of the current home value.'
+  },
+  {
+    key: 'insurancePercent',
+    label: 'Homeowners Insurance',
+    suffix: '%/yr',
+    step: 0.05,
+    helper: 'Of the current home value.'
+  },
+  {
+    key: 'maintenancePercent',
+    label: 'Maintenance',
+    suffix: '%/yr',
+    step: 0.1,
+    helper: 'Of the current home value.'
+  },
+  { key: 'monthlyHoa', label: 'HOA (monthly)', step: 10, money: true },
+  {
+    key: 'pmiRatePercent',
+    label: 'PMI Rate',
+    suffix: '%/yr',
+    step: 0.05,
+    helper: 'Of the loan, below 20% down until 78% LTV.'
+  },
+  {
+    key: 'buyingClosingCostPercent',
+    label: 'Closing Costs (buying)',
+    suffix: '%',
+    step: 0.25,
+    helper: 'Of the purchase price, paid upfront.'
+  },
+  {
+    key: 'agentCommissionPercent',
+    label: 'Agent Commission',
+    suffix: '%',
+    step: 0.25,
+    helper: 'Of the sale price, paid when selling.'
+  },
+  {
+    key: 'sellingClosingCostPercent',
+    label: 'Closing Costs (selling)',
+    suffix: '%',
+    step: 0.25,
+    helper: 'Of the sale price, deducted from equity.'
+  }
+]
+
+const TAX_FIELDS: AssumptionField[] = [
+  { key: 'marginalTaxRatePercent', label: 'Marginal Tax Rate', suffix: '%', step: 1 },
+  {
+    key: 'stateIncomeTax',
+    label: 'State Income Tax (annual)',
+    step: 100,
+    money: true,
+    helper: 'Shares the SALT cap with property tax.'
+  },
+  {
+    key: 'capitalGainsTaxRatePercent',
+    label: 'Capital Gains Rate',
+    suffix: '%',
+    step: 1,
+    helper: 'On any gain above the home sale exclusion.'
+  }
+]
+
+const SIMULATION_BAND_LINES = [
+  { dataKey: 'rentP10', name: 'Renting, 10th percentile', gradient: 'secondary' },
+  { dataKey: 'rentP90', name: 'Renting, 90th percentile', gradient: 'secondary' },
+  { dataKey: 'buyP10', name: 'Buying, 10th percentile', gradient: 'primary' },
+  { dataKey: 'buyP90', name: 'Buying, 90th percentile', gradient: 'primary' }
+]
+
+type RentVsBuyCalculatorProps = {
+  /** Overrides for the advanced assumptions, e.g. from an embed configuration */
+  initialAssumptions?: Partial<RentVsBuyAssumptions>
+  onAssumptionsChange?: (assumptions: RentVsBuyAssumptions) => void
 }
 
-export function RentVsBuyCalculator() {
+export function RentVsBuyCalculator({
+  initialAssumptions,
+  onAssumptionsChange
+}: RentVsBuyCalculatorProps = {}) {
   const theme = useEmbedTheme()
   const chartId = `cp-rvb-${useId().replace(/[^a-zA-Z0-9_-]/g, '')}`
+  const netWorthChartId = `${chartId}-nw`
+  const sensitivityChartId = `${chartId}-gs`
   // Inputs requested
   const [targetHomePrice, setTargetHomePrice] = useState(400_000)
   const [currentMonthlyRent, setCurrentMonthlyRent] = useState(2_500)
   const [rentInflationPct, setRentInflationPct] = useState(3)
   const [homeAppreciationPct, setHomeAppreciationPct] = useState(3)
+  const [investmentReturnPct, setInvestmentReturnPct] = useState(6)
   const [durationYears, setDurationYears] = useState(10)
 
-  // Simple defaults/assumptions (kept intentionally minimal since not requested as inputs)
-  const ASSUMED_DOWN_PCT = 0.2
-  const ASSUMED_RATE_PCT = 6.5
-  const ASSUMED_TERM_YEARS = 30
-  const ASSUMED_TAX_PCT = 0.01
-  const ASSUMED_MAINT_PCT = 0.01
+  const [assumptions, setAssumptions] = useState<RentVsBuyAssumptions>(() => ({
+    ...DEFAULT_RENT_VS_BUY_ASSUMPTIONS,
+    ...initialAssumptions
+  }))
+  const [showAdvanced, setShowAdvanced] = useState(false)
+  const filingRules = FILING_STATUS_RULES[assumptions.filingStatus]
 
-  const { data, crossoverYear, summary } = useMemo(() => {
-    const years = Math.min(50, Math.max(1, Math.round(durationYears)))
-    const price0 = clampNonNegative(targetHomePrice)
-    const rent0 = clampNonNegative(currentMonthlyRent)
+  // Monte Carlo mode samples each year's rates around the inputs above.
+  const [simulationEnabled, setSimulationEnabled] = useState(false)
+  const [simulationPaths, setSimulationPaths] = useState(2_000)
+  const [appreciationStdDev, setAppreciationStdDev] = useState(5)
+  const [rentInflationStdDev, setRentInflationStdDev] = useState(2)
+  const [investmentReturnStdDev, setInvestmentReturnStdDev] = useState(15)
+  const [simulation, setSimulation] = useState<RentVsBuySimulation | null>(null)
+  const [simulating, setSimulating] = useState(false)
+  const [goalSeekVariable, setGoalSeekVariable] = useState<GoalSeekVariable>('home-price')
+  const workerRef = useRef<Worker | null>(null)
+  const requestIdRef = useRef(0)
 
-    const rentInfl = clampNonNegative(rentInflationPct) / 100
-    const appr = clampNonNegative(homeAppreciationPct) / 100
+  useEffect(() => {
+    onAssumptionsChange?.(assumptions)
+  }, [assumptions, onAssumptionsChange])
 
-    const downPayment = price0 * ASSUMED_DOWN_PCT
-    const loanAmount = Math.max(0, price0 - downPayment)
+  function updateAssumption<K extends keyof RentVsBuyAssumptions>(
+    key: K,
+    value: RentVsBuyAssumptions[K]
+  ) {
+    setAssumptions(prev => ({ ...prev, [key]: value }))
+  }
 
-    const monthlyMortgagePayment = calculateMonthlyPayment(
-      loanAmount,
-      ASSUMED_RATE_PCT,
-      ASSUMED_TERM_YEARS
+  function renderAssumptionField(field: AssumptionField) {
+    return field.money ? (
+      <MoneyInput
+        key={field.key}
+        id={`rvb-${field.key}`}
+        label={field.label}
+        value={assumptions[field.key]}
+        onChange={n => updateAssumption(field.key, n)}
+        helper={field.helper}
+      />
+    ) : (
+      <NumberInput
+        key={field.key}
+        id={`rvb-${field.key}`}
+        label={field.label}
+        value={assumptions[field.key]}
+        onChange={n => updateAssumption(field.key, n)}
+        min={0}
+        step={field.step}
+        suffix={field.suffix}
+        helper={field.helper}
+      />
     )
+  }
 
-    // Amortization to compute principal paid over time (monthly)
-    const r = (ASSUMED_RATE_PCT / 100) / 12
-    let remainingBalance = loanAmount
-    let cumulativePrincipalPaid = 0
-
-    let cumulativeRentCost = 0
-    let cumulativeMortgagePaid = 0
-    let cumulativeTaxPaid = 0
-    let cumulativeMaintenancePaid = 0
-
-    const points: DataPoint[] = []
-    let firstCrossover: number | null = null
-
-    for (let year = 1; year <= years; year++) {
-      const yearHomeValue = price0 * Math.pow(1 + appr, year - 1)
-
-      // Rent for this year inflates once per year
-      const yearMonthlyRent = rent0 * Math.pow(1 + rentInfl, year - 1)
-      const yearRentCost = yearMonthlyRent * 12
-      cumulativeRentCost += yearRentCost
-
-      // Mortgage P&I for the year (fixed payment)
-      for (let m = 0; m < 12; m++) {
-        if (remainingBalance <= 0) break
-        const interestPayment = remainingBalance * r
-        const principalPayment = Math.max(0, monthlyMortgagePayment - interestPayment)
-        remainingBalance = Math.max(0, remainingBalance - principalPayment)
-        cumulativePrincipalPaid += principalPayment
-      }
-      const yearMortgagePaid = monthlyMortgagePayment * 12
-      cumulativeMortgagePaid += yearMortgagePaid
-
-      // Tax & maintenance (assumed % of current home value, paid annually)
-      const yearTax = yearHomeValue * ASSUMED_TAX_PCT
-      const yearMaint = yearHomeValue * ASSUMED_MAINT_PCT
-      cumulativeTaxPaid += yearTax
-      cumulativeMaintenancePaid += yearMaint
-
-      // Equity gained: down payment + principal paid + appreciation gain
-      const appreciationGain = Math.max(0, yearHomeValue - price0)
-      const equity = downPayment + cumulativePrincipalPaid + appreciationGain
-
-      // Buying cash outlay: down payment + mortgage payments + tax + maintenance
-      const cashOut =
-        downPayment + cumulativeMortgagePaid + cumulativeTaxPaid + cumulativeMaintenancePaid
-
-      // Net cost: cash outlay minus equity (simplified model)
-      const netBuyCost = Math.max(0, cashOut - equity)
+  const { data, crossoverYear, netWorthCrossoverYear, summary } = useMemo(() => {
+    const projection = projectRentVsBuy({
+      homePrice: targetHomePrice,
+      monthlyRent: currentMonthlyRent,
+      rentInflationPercent: rentInflationPct,
+      homeAppreciationPercent: homeAppreciationPct,
+      investmentReturnPercent: investmentReturnPct,
+      years: durationYears,
+      assumptions
+    })
 
-      if (firstCrossover === null && netBuyCost <= cumulativeRentCost) {
-        firstCrossover = year
-      }
-
-      points.push({
-        year,
-        rentCost: cumulativeRentCost,
-        buyNetCost: netBuyCost
-      })
-    }
-
-    const last = points[points.length - 1]
+    const last = projection.years[projection.years.length - 1]
     return {
-      data: points,
-      crossoverYear: firstCrossover,
+      data: projection.years,
+      crossoverYear: projection.crossoverYear,
+      netWorthCrossoverYear: projection.netWorthCrossoverYear,
       summary: {
         finalRentCost: last?.rentCost ?? 0,
         finalBuyNetCost: last?.buyNetCost ?? 0,
-        downPayment,
-        loanAmount,
-        monthlyMortgagePayment
+        downPayment: projection.downPayment,
+        buyingClosingCosts: projection.buyingClosingCosts,
+        loanAmount: projection.loanAmount,
+        monthlyMortgagePayment: projection.monthlyMortgagePayment,
+        monthlyPmi: projection.monthlyPmi,
+        homeValue: last?.homeValue ?? 0,
+        sellingCosts: last?.sellingCosts ?? 0,
+        loanBalance: last?.loanBalance ?? 0,
+        capitalGainsTax: last?.capitalGainsTax ?? 0,
+        saleProceeds: last?.saleProceeds ?? 0,
+        taxSavings: last?.taxSavings ?? 0,
+        renterNetWorth: last?.renterNetWorth ?? 0,
+        buyerNetWorth: last?.buyerNetWorth ?? 0
       }
     }
-  }, [currentMonthlyRent, durationYears, homeAppreciationPct, rentInflationPct, targetHomePrice])
+  }, [
+    assumptions,
+    currentMonthlyRent,
+    durationYears,
+    homeAppreciationPct,
+    investmentReturnPct,
+    rentInflationPct,
+    targetHomePrice
+  ])
+
+  const buyingAhead = summary.buyerNetWorth >= summary.renterNetWorth
+
+  const goalSeek = useMemo(
+    () =>
+      goalSeekRentVsBuy(
+        {
+          homePrice: targetHomePrice,
+          monthlyRent: currentMonthlyRent,
+          rentInflationPercent: rentInflationPct,
+          homeAppreciationPercent: homeAppreciationPct,
+          investmentReturnPercent: investmentReturnPct,
+          years: durationYears,
+          assumptions
+        },
+        goalSeekVariable
+      ),
+    [
+      assumptions,
+      currentMonthlyRent,
+      durationYears,
+      goalSeekVariable,
+      homeAppreciationPct,
+      investmentReturnPct,
+      rentInflationPct,
+      targetHomePrice
+    ]
+  )
+  const goalSeekCurrentValue =
+    goalSeekVariable === 'home-price' ? targetHomePrice : currentMonthlyRent
+  const goalSeekLabel = goalSeekVariable === 'home-price' ? 'Home Price' : 'Monthly Rent'
+
+  useEffect(() => {
+    if (!simulationEnabled) {
+      setSimulation(null)
+      setSimulating(false)
+      return
+    }
+    const worker = new Worker(
+      new URL('../workers/rentVsBuySimulation.worker.ts', import.meta.url),
+      { type: 'module' }
+    )
+    worker.onmessage = (event: MessageEvent<SimulationResponse>) => {
+      if (event.data.id !== requestIdRef.current) return
+      setSimulation(event.data.result)
+      setSimulating(false)
+    }
+    workerRef.current = worker
+    return () => {
+      worker.terminate()
+      workerRef.current = null
+    }
+  }, [simulationEnabled])
+
+  useEffect(() => {
+    const worker = workerRef.current
+    if (!simulationEnabled || !worker) return
+    const id = ++requestIdRef.current
+    setSimulating(true)
+    // Wait for typing to settle so each keystroke doesn't queue a full simulation.
+    const timer = window.setTimeout(() => {
+      const request: SimulationRequest = {
+        id,
+        input: {
+          base: {
+            homePrice: targetHomePrice,
+            monthlyRent: currentMonthlyRent,
+            rentInflationPercent: rentInflationPct,
+            homeAppreciationPercent: homeAppreciationPct,
+            investmentReturnPercent: investmentReturnPct,
+            years: durationYears,
+            assumptions
+          },
+          homeAppreciation: { meanPercent: homeAppreciationPct, stdDevPercent: appreciationStdDev },
+          rentInflation: { meanPercent: rentInflationPct, stdDevPercent: rentInflationStdDev },
+          investmentReturn: {
+            meanPercent: investmentReturnPct,
+            stdDevPercent: investmentReturnStdDev
+          },
+          paths: simulationPaths
+        }
+      }
+      worker.postMessage(request)
+    }, 250)
+    return () => window.clearTimeout(timer)
+  }, [
+    appreciationStdDev,
+    assumptions,
+    currentMonthlyRent,
+    durationYears,
+    homeAppreciationPct,
+    investmentReturnPct,
+    investmentReturnStdDev,
+    rentInflationPct,
+    rentInflationStdDev,
+    simulationEnabled,
+    simulationPaths,
+    targetHomePrice
+  ])
+
+  // In simulation mode the chart's main lines are the medians, with 10th/90th percentile bands.
+  const costChartData = useMemo(() => {
+    if (!simulation) return data
+    return simulation.years.map(point => ({
+      year: point.year,
+      rentCost: point.rentCost.p50,
+      rentP10: point.rentCost.p10,
+      rentP90: point.rentCost.p90,
+      buyNetCost: point.buyNetCost.p50,
+      buyP10: point.buyNetCost.p10,
+      buyP90: point.buyNetCost.p90
+    }))
+  }, [data, simulation])
+  const finalSimulationYear = simulation ? simulation.years[simulation.years.length - 1] : null
 
   return (
     <div className="rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface)] p-6 shadow-sm text-[var(--mc-text)]">
@@ -283,6 +496,16 @@ export function RentVsBuyCalculator() {
                 suffix="%"
               />
             </div>
+            <NumberInput
+              id="investmentReturn"
+              label="Investment Return"
+              value={investmentReturnPct}
+              onChange={setInvestmentReturnPct}
+              min={0}
+              step={0.1}
+              suffix="%"
+              helper="Earned on the cash the renter keeps and on whichever side's monthly savings."
+            />
             <NumberInput
               id="duration"
               label="Duration"
@@ -294,13 +517,135 @@ export function RentVsBuyCalculator() {
               helper="Chart uses years 1..N."
             />
 
+            <div className="rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface-muted)] text-xs text-[var(--mc-muted)]">
+              <button
+                type="button"
+                onClick={() => setShowAdvanced(v => !v)}
+                aria-expanded={showAdvanced}
+                className="flex w-full items-center justify-between gap-3 p-4 text-left"
+              >
+                <div>
+                  <div className="font-semibold text-[color:var(--mc-text)]/80">
+                    Advanced assumptions
+                  </div>
+                  <div className="mt-1">
+                    {assumptions.downPaymentPercent}% down, {assumptions.loanTermYears}-year fixed
+                    at {assumptions.mortgageRatePercent}% · Property tax{' '}
+                    {assumptions.propertyTaxPercent}%/yr · Maintenance{' '}
+                    {assumptions.maintenancePercent}%/yr
+                  </div>
+                </div>
+                <ChevronDown
+                  className={[
+                    'h-4 w-4 shrink-0 transition-transform',
+                    showAdvanced ? 'rotate-180' : ''
+                  ].join(' ')}
+                />
+              </button>
+
+              {showAdvanced ? (
+                <div className="grid gap-4 border-t border-[var(--mc-border)] p-4 sm:grid-cols-2">
+                  {ASSUMPTION_FIELDS.map(renderAssumptionField)}
+
+                  <div className="font-semibold text-[color:var(--mc-text)]/80 sm:col-span-2">
+                    Income taxes
+                  </div>
+                  <label className="block">
+                    <div className="text-sm font-medium text-[color:var(--mc-text)]/85">
+                      Filing Status
+                    </div>
+                    <select
+                      value={assumptions.filingStatus}
+                      onChange={e =>
+                        updateAssumption('filingStatus', e.target.value as FilingStatus)
+                      }
+                      className="mt-2 w-full rounded-xl border border-[var(--mc-input-border)] bg-[var(--mc-input-bg)] px-3 py-2.5 text-sm font-medium text-[var(--mc-text)] shadow-sm outline-none focus:border-[var(--mc-primary)] focus:ring-2 focus:ring-[var(--mc-ring)]"
+                    >
+                      {(Object.keys(FILING_STATUS_RULES) as FilingStatus[]).map(status => (
+                        <option key={status} value={status}>
+                          {FILING_STATUS_RULES[status].label}
+                        </option>
+                      ))}
+                    </select>
+                    <div className="mt-1 text-xs text-[var(--mc-muted)]">
+                      {formatCurrency(filingRules.standardDeduction)} standard deduction ·{' '}
+                      {formatCurrency(filingRules.saltCap)} SALT cap ·{' '}
+                      {formatCurrency(filingRules.capitalGainsExclusion)} gain exclusion
+                    </div>
+                  </label>
+                  {TAX_FIELDS.map(renderAssumptionField)}
+
+                  <button
+                    type="button"
+                    onClick={() => setAssumptions(DEFAULT_RENT_VS_BUY_ASSUMPTIONS)}
+                    className="justify-self-start rounded-xl border border-[var(--mc-border)] bg-[var(--mc-surface)] px-3 py-2 text-xs font-semibold text-[var(--mc-text)] shadow-sm hover:bg-[var(--mc-surface-muted)] sm:col-span-2"
+                  >
+                    Reset to defaults
+                  </button>
+                </div>
+              ) : null}
+            </div>
+
             <div className="rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface-muted)] p-4 text-xs text-[var(--mc-muted)]">
-              <div className="font-semibold text-[color:var(--mc-text)]/80">Assumptions</div>
-              <div className="mt-1">
-                {Math.round(ASSUMED_DOWN_PCT * 100)}% down, {ASSUMED_TERM_YEARS}-year fixed at{' '}
-                {ASSUMED_RATE_PCT}% · Property tax {Math.round(ASSUMED_TAX_PCT * 100)}%/yr ·
-                Maintenance {Math.round(ASSUMED_MAINT_PCT * 100)}%/yr
-              </div>
+              <label className="flex items-center gap-3">
+                <input
+                  type="checkbox"
+                  checked={simulationEnabled}
+                  onChange={e => setSimulationEnabled(e.target.checked)}
+                  className="h-4 w-4 accent-[var(--mc-primary)]"
+                />
+                <span>
+                  <span className="block font-semibold text-[color:var(--mc-text)]/80">
+                    Monte Carlo simulation
+                  </span>
+                  <span className="mt-0.5 block">
+                    Sample each year&apos;s appreciation, rent inflation and return from a normal
+                    distribution centered on the rates above.
+                  </span>
+                </span>
+              </label>
+
+              {simulationEnabled ? (
+                <div className="mt-4 grid gap-4 sm:grid-cols-2">
+                  <NumberInput
+                    id="simulationPaths"
+                    label="Paths"
+                    value={simulationPaths}
+                    onChange={n => setSimulationPaths(Math.min(MAX_SIMULATION_PATHS, n))}
+                    min={100}
+                    step={500}
+                    helper={`Up to ${MAX_SIMULATION_PATHS.toLocaleString('en-US')}.`}
+                  />
+                  <NumberInput
+                    id="appreciationStdDev"
+                    label="Appreciation Volatility"
+                    value={appreciationStdDev}
+                    onChange={setAppreciationStdDev}
+                    step={0.5}
+                    suffix="± %"
+                  />
+                  <NumberInput
+                    id="rentInflationStdDev"
+                    label="Rent Inflation Volatility"
+                    value={rentInflationStdDev}
+                    onChange={setRentInflationStdDev}
+                    step={0.5}
+                    suffix="± %"
+                  />
+                  <NumberInput
+                    id="investmentReturnStdDev"
+                    label="Return Volatility"
+                    value={investmentReturnStdDev}
+                    onChange={setInvestmentReturnStdDev}
+                    step={0.5}
+                    suffix="± %"
+                  />
+                  <div className="sm:col-span-2">
+                    Volatility is the standard deviation of each year&apos;s rate, in percentage
+                    points.
+                  </div>
+                </div>
+              ) : null}
             </div>
           </div>
         </section>
@@ -311,7 +656,9 @@ export function RentVsBuyCalculator() {
             <div>
               <div className="text-sm font-semibold text-[var(--mc-text)]">Results</div>
               <div className="mt-1 text-xs text-[var(--mc-muted)]">
-                Net buying cost = mortgage + tax + maintenance − equity gained (principal + appreciation + down payment).
+                Net buying cost = down payment + closing costs + mortgage, PMI, tax, insurance,
+                HOA and maintenance − income tax saved − what the buyer walks away with after a
+                sale.
               </div>
             </div>
             <div
@@ -348,13 +695,19 @@ export function RentVsBuyCalculator() {
 
             <div className="mt-4 grid gap-2 text-sm">
               <div className="flex items-center justify-between">
-                <span className="font-medium text-[color:var(--mc-text)]/80">Down Payment (assumed)</span>
+                <span className="font-medium text-[color:var(--mc-text)]/80">Down Payment</span>
                 <span className="font-semibold text-[var(--mc-text)]">
                   {formatCurrency(summary.downPayment)}
                 </span>
               </div>
               <div className="flex items-center justify-between">
-                <span className="font-medium text-[color:var(--mc-text)]/80">Loan Amount (assumed)</span>
+                <span className="font-medium text-[color:var(--mc-text)]/80">Closing Costs</span>
+                <span className="font-semibold text-[var(--mc-text)]">
+                  {formatCurrency(summary.buyingClosingCosts)}
+                </span>
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-[color:var(--mc-text)]/80">Loan Amount</span>
                 <span className="font-semibold text-[var(--mc-text)]">
                   {formatCurrency(summary.loanAmount)}
                 </span>
@@ -365,13 +718,87 @@ export function RentVsBuyCalculator() {
                   {formatCurrency(summary.monthlyMortgagePayment)}
                 </span>
               </div>
+              {summary.monthlyPmi > 0 ? (
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-[color:var(--mc-text)]/80">PMI (monthly)</span>
+                  <span className="font-semibold text-[var(--mc-text)]">
+                    {formatCurrency(summary.monthlyPmi)}
+                  </span>
+                </div>
+              ) : null}
+            </div>
+
+            <div className="mt-4 border-t border-[var(--mc-border)] pt-4">
+              <div className="text-xs font-semibold uppercase tracking-wide text-[var(--mc-muted)]">
+                Selling at year {data.length}
+              </div>
+              <div className="mt-2 grid gap-2 text-sm">
+                {[
+                  { label: 'Sale Price', value: formatCurrency(summary.homeValue) },
+                  {
+                    label: 'Commission & Selling Costs',
+                    value: `−${formatCurrency(summary.sellingCosts)}`
+                  },
+                  { label: 'Loan Payoff', value: `−${formatCurrency(summary.loanBalance)}` },
+                  {
+                    label: 'Capital Gains Tax',
+                    value: `−${formatCurrency(summary.capitalGainsTax)}`
+                  }
+                ].map(row => (
+                  <div key={row.label} className="flex items-center justify-between">
+                    <span className="font-medium text-[color:var(--mc-text)]/80">{row.label}</span>
+                    <span className="font-semibold text-[var(--mc-text)]">{row.value}</span>
+                  </div>
+                ))}
+                <div className="flex items-center justify-between border-t border-[var(--mc-border)] pt-2">
+                  <span className="font-semibold text-[var(--mc-text)]">Buyer Walks Away With</span>
+                  <span className="font-semibold text-[var(--mc-text)]">
+                    {formatSignedCurrency(summary.saleProceeds)}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-[color:var(--mc-text)]/80">
+                    Income Tax Saved (total)
+                  </span>
+                  <span className="font-semibold text-emerald-600">
+                    {formatCurrency(summary.taxSavings)}
+                  </span>
+                </div>
+              </div>
             </div>
           </div>
 
+          {simulationEnabled ? (
+            <div className="mt-6 rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface-muted)] p-5 shadow-sm">
+              <div className="text-xs font-semibold uppercase tracking-wide text-[var(--mc-muted)]">
+                Probability buying beats renting ({Math.round(durationYears)} yrs)
+              </div>
+              {simulation && finalSimulationYear ? (
+                <>
+                  <div className="mt-1 text-2xl font-semibold tracking-tight text-[var(--mc-text)]">
+                    {Math.round(simulation.probabilityBuyingWins * 100)}%
+                  </div>
+                  <div className="mt-1 text-xs text-[var(--mc-muted)]">
+                    Share of {simulation.paths.toLocaleString('en-US')} paths where the buyer ends
+                    with more net worth. Buyer advantage: median{' '}
+                    {formatSignedCurrency(finalSimulationYear.netWorthAdvantage.p50)}, 10th–90th
+                    percentile {formatSignedCurrency(finalSimulationYear.netWorthAdvantage.p10)} to{' '}
+                    {formatSignedCurrency(finalSimulationYear.netWorthAdvantage.p90)}.
+                    {simulating ? ' Updating…' : ''}
+                  </div>
+                </>
+              ) : (
+                <div className="mt-1 text-sm text-[var(--mc-muted)]">Running simulation…</div>
+              )}
+            </div>
+          ) : null}
+
           <div className="mt-6 rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface)] p-4 shadow-sm">
             <div className="mb-3 flex items-center justify-between">
               <div className="text-sm font-semibold text-[var(--mc-text)]">Cumulative cost over time</div>
-              <div className="text-xs font-medium text-[var(--mc-muted)]">Line chart</div>
+              <div className="text-xs font-medium text-[var(--mc-muted)]">
+                {simulation ? 'Median with 10th–90th percentile' : 'Line chart'}
+              </div>
             </div>
 
             <div className="h-72">
@@ -379,7 +806,7 @@ export function RentVsBuyCalculator() {
                 {/* IDs are per-chart to avoid collisions across the app */}
                 <LineChart
                   key={chartId}
-                  data={data}
+                  data={costChartData}
                   margin={{ left: 8, right: 16, top: 8, bottom: 8 }}
                 >
                   {renderCyberpunkDefs(chartId, theme.chart)}
@@ -421,7 +848,7 @@ export function RentVsBuyCalculator() {
                   <Line
                     type="monotone"
                     dataKey="rentCost"
-                    name="Total Cost of Renting"
+                    name={simulation ? 'Median Cost of Renting' : 'Total Cost of Renting'}
                     stroke={`url(#${chartId}-grad-secondary)`}
                     strokeWidth={3}
                     dot={false}
@@ -440,7 +867,7 @@ export function RentVsBuyCalculator() {
                   <Line
                     type="monotone"
                     dataKey="buyNetCost"
-                    name="Net Cost of Buying"
+                    name={simulation ? 'Median Net Cost of Buying' : 'Net Cost of Buying'}
                     stroke={`url(#${chartId}-grad-primary)`}
                     strokeWidth={3}
                     dot={false}
@@ -456,12 +883,317 @@ export function RentVsBuyCalculator() {
                       filter: `url(#${chartId}-glow)`
                     }}
                   />
+                  {simulation
+                    ? SIMULATION_BAND_LINES.map(band => (
+                        <Line
+                          key={band.dataKey}
+                          type="monotone"
+                          dataKey={band.dataKey}
+                          name={band.name}
+                          stroke={`url(#${chartId}-grad-${band.gradient})`}
+                          strokeWidth={1.5}
+                          strokeDasharray="4 4"
+                          strokeOpacity={0.6}
+                          dot={false}
+                          isAnimationActive={false}
+                        />
+                      ))
+                    : null}
                 </LineChart>
               </ResponsiveContainer>
             </div>
           </div>
         </section>
       </div>
+
+      <section className="mt-6 rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface)] p-5 shadow-sm">
+        <div className="mb-4 flex items-start justify-between gap-3">
+          <div>
+            <div className="text-sm font-semibold text-[var(--mc-text)]">Net worth over time</div>
+            <div className="mt-1 text-xs text-[var(--mc-muted)]">
+              The renter invests the cash a buyer spends at closing; each month, whoever pays less
+              invests the difference at {investmentReturnPct}%/yr. Buyer net worth includes the
+              home's sale proceeds.
+            </div>
+          </div>
+          <div
+            className={[
+              'rounded-xl px-3 py-2 text-xs font-semibold',
+              netWorthCrossoverYear
+                ? 'border border-emerald-200 bg-emerald-50 text-emerald-900'
+                : 'border border-[var(--mc-border)] bg-[var(--mc-surface-muted)] text-[color:var(--mc-text)]/80'
+            ].join(' ')}
+          >
+            {netWorthCrossoverYear
+              ? `Buying ahead from Year ${netWorthCrossoverYear}`
+              : 'Renting ahead in range'}
+          </div>
+        </div>
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface-muted)] p-4">
+            <div className="text-xs font-semibold uppercase tracking-wide text-[var(--mc-muted)]">
+              Renter net worth ({Math.round(durationYears)} yrs)
+            </div>
+            <div className="mt-1 text-xl font-semibold tracking-tight text-[var(--mc-text)]">
+              {formatSignedCurrency(summary.renterNetWorth)}
+            </div>
+          </div>
+          <div className="rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface-muted)] p-4">
+            <div className="text-xs font-semibold uppercase tracking-wide text-[var(--mc-muted)]">
+              Buyer net worth ({Math.round(durationYears)} yrs)
+            </div>
+            <div className="mt-1 text-xl font-semibold tracking-tight text-[var(--mc-text)]">
+              {formatSignedCurrency(summary.buyerNetWorth)}
+            </div>
+          </div>
+          <div className="rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface-muted)] p-4">
+            <div className="text-xs font-semibold uppercase tracking-wide text-[var(--mc-muted)]">
+              {buyingAhead ? 'Buying ahead by' : 'Renting ahead by'}
+            </div>
+            <div
+              className={[
+                'mt-1 text-xl font-semibold tracking-tight',
+                buyingAhead ? 'text-emerald-600' : 'text-amber-600'
+              ].join(' ')}
+            >
+              {formatCurrency(Math.abs(summary.buyerNetWorth - summary.renterNetWorth))}
+            </div>
+          </div>
+        </div>
+
+        <div className="mt-6 grid gap-6 lg:grid-cols-2">
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart
+                key={netWorthChartId}
+                data={data}
+                margin={{ left: 8, right: 16, top: 8, bottom: 8 }}
+              >
+                {renderCyberpunkDefs(netWorthChartId, theme.chart)}
+                <CartesianGrid strokeDasharray="4 8" stroke="rgba(148,163,184,0.25)" />
+                <XAxis
+                  dataKey="year"
+                  tickLine={false}
+                  axisLine={false}
+                  tick={{ fill: 'rgba(148,163,184,0.9)', fontSize: 12 }}
+                />
+                <YAxis
+                  tickLine={false}
+                  axisLine={false}
+                  width={72}
+                  tickFormatter={v => `$${Math.round(Number(v)).toLocaleString('en-US')}`}
+                  tick={{ fill: 'rgba(148,163,184,0.9)', fontSize: 12 }}
+                />
+                <Tooltip
+                  content={
+                    <CyberpunkTooltip
+                      labelFormatter={l => `Year ${String(l)}`}
+                      valueFormatter={v =>
+                        formatSignedCurrency(typeof v === 'number' ? v : Number(v))
+                      }
+                    />
+                  }
+                  cursor={{ stroke: 'rgba(79,172,254,0.3)', strokeWidth: 1 }}
+                />
+                {netWorthCrossoverYear ? (
+                  <ReferenceLine
+                    x={netWorthCrossoverYear}
+                    stroke="#22c55e"
+                    strokeDasharray="4 4"
+                    ifOverflow="extendDomain"
+                  />
+                ) : null}
+                <Line
+                  type="monotone"
+                  dataKey="renterNetWorth"
+                  name="Renter Net Worth"
+                  stroke={`url(#${netWorthChartId}-grad-secondary)`}
+                  strokeWidth={3}
+                  dot={false}
+                  isAnimationActive
+                  animationDuration={CHART_ANIMATION.durationMs}
+                  animationEasing={CHART_ANIMATION.easing}
+                  animationBegin={50}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="buyerNetWorth"
+                  name="Buyer Net Worth"
+                  stroke={`url(#${netWorthChartId}-grad-primary)`}
+                  strokeWidth={3}
+                  dot={false}
+                  isAnimationActive
+                  animationDuration={CHART_ANIMATION.durationMs}
+                  animationEasing={CHART_ANIMATION.easing}
+                  animationBegin={50}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="max-h-72 overflow-auto rounded-2xl border border-[var(--mc-border)]">
+            <table className="w-full border-collapse text-left text-sm">
+              <thead className="sticky top-0 bg-[var(--mc-surface-muted)]">
+                <tr className="text-xs font-semibold uppercase tracking-wide text-[var(--mc-muted)]">
+                  <th className="px-3 py-3">Year</th>
+                  <th className="px-3 py-3 text-right">Renter</th>
+                  <th className="px-3 py-3 text-right">Buyer</th>
+                  <th className="px-3 py-3 text-right">Difference</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-[var(--mc-border)] bg-[var(--mc-surface)]">
+                {data.map(point => {
+                  const difference = point.buyerNetWorth - point.renterNetWorth
+                  return (
+                    <tr key={point.year}>
+                      <td className="px-3 py-2 font-medium text-[var(--mc-text)]">{point.year}</td>
+                      <td className="px-3 py-2 text-right text-[color:var(--mc-text)]/80">
+                        {formatSignedCurrency(point.renterNetWorth)}
+                      </td>
+                      <td className="px-3 py-2 text-right text-[color:var(--mc-text)]/80">
+                        {formatSignedCurrency(point.buyerNetWorth)}
+                      </td>
+                      <td
+                        className={[
+                          'px-3 py-2 text-right font-semibold',
+                          difference >= 0 ? 'text-emerald-600' : 'text-amber-600'
+                        ].join(' ')}
+                      >
+                        {difference >= 0 ? 'Buy +' : 'Rent +'}
+                        {formatCurrency(Math.abs(difference))}
+                      </td>
+                    </tr>
+                  )
+                })}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </section>
+
+      <section className="mt-6 rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface)] p-5 shadow-sm">
+        <div className="mb-4 flex flex-wrap items-start justify-between gap-3">
+          <div>
+            <div className="text-sm font-semibold text-[var(--mc-text)]">Break-even goal seek</div>
+            <div className="mt-1 text-xs text-[var(--mc-muted)]">
+              Solves for the value at which buyer and renter finish year {Math.round(durationYears)}{' '}
+              with the same net worth, holding every other input fixed.
+            </div>
+          </div>
+          <label className="block min-w-[12rem]">
+            <div className="text-sm font-medium text-[color:var(--mc-text)]/85">Solve for</div>
+            <select
+              value={goalSeekVariable}
+              onChange={e => setGoalSeekVariable(e.target.value as GoalSeekVariable)}
+              className="mt-2 w-full rounded-xl border border-[var(--mc-input-border)] bg-[var(--mc-input-bg)] px-3 py-2.5 text-sm font-medium text-[var(--mc-text)] shadow-sm outline-none focus:border-[var(--mc-primary)] focus:ring-2 focus:ring-[var(--mc-ring)]"
+            >
+              <option value="home-price">Break-even home price</option>
+              <option value="monthly-rent">Break-even monthly rent</option>
+            </select>
+          </label>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          <div className="rounded-2xl border border-[var(--mc-border)] bg-[var(--mc-surface-muted)] p-5">
+            <div className="text-xs font-semibold uppercase tracking-wide text-[var(--mc-muted)]">
+              Break-even {goalSeekLabel.toLowerCase()}
+            </div>
+            <div className="mt-1 text-2xl font-semibold tracking-tight text-[var(--mc-text)]">
+              {goalSeek.breakEvenValue !== null ? formatCurrency(goalSeek.breakEvenValue) : '—'}
+            </div>
+            <div className="mt-2 text-xs text-[var(--mc-muted)]">
+              {goalSeek.breakEvenValue === null
+                ? 'No value breaks even with these inputs.'
+                : goalSeekVariable === 'home-price'
+                  ? `Buying comes out ahead below this price; you entered ${formatCurrency(
+                      targetHomePrice
+                    )}.`
+                  : `Buying comes out ahead when rent is above this; you entered ${formatCurrency(
+                      currentMonthlyRent
+                    )}.`}
+            </div>
+          </div>
+
+          <div className="h-72 lg:col-span-2">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart
+                key={sensitivityChartId}
+                data={goalSeek.sensitivity}
+                margin={{ left: 8, right: 16, top: 8, bottom: 8 }}
+              >
+                {renderCyberpunkDefs(sensitivityChartId, theme.chart)}
+                <CartesianGrid strokeDasharray="4 8" stroke="rgba(148,163,184,0.25)" />
+                <XAxis
+                  dataKey="value"
+                  type="number"
+                  domain={['dataMin', 'dataMax']}
+                  tickLine={false}
+                  axisLine={false}
+                  tickFormatter={v => formatCurrency(Number(v))}
+                  tick={{ fill: 'rgba(148,163,184,0.9)', fontSize: 12 }}
+                />
+                <YAxis
+                  tickLine={false}
+                  axisLine={false}
+                  width={72}
+                  tickFormatter={v => `$${Math.round(Number(v)).toLocaleString('en-US')}`}
+                  tick={{ fill: 'rgba(148,163,184,0.9)', fontSize: 12 }}
+                />
+                <Tooltip
+                  content={
+                    <CyberpunkTooltip
+                      labelFormatter={l => `${goalSeekLabel} ${formatCurrency(Number(l))}`}
+                      valueFormatter={v =>
+                        formatSignedCurrency(typeof v === 'number' ? v : Number(v))
+                      }
+                    />
+                  }
+                  cursor={{ stroke: 'rgba(79,172,254,0.3)', strokeWidth: 1 }}
+                />
+                <ReferenceLine y={0} stroke="rgba(148,163,184,0.6)" />
+                {goalSeek.breakEvenValue !== null ? (
+                  <ReferenceLine
+                    x={goalSeek.breakEvenValue}
+                    stroke={theme.chart.accentTo}
+                    strokeDasharray="4 4"
+                    label={{
+                      value: 'Break-even',
+                      position: 'insideTopLeft',
+                      fill: 'rgba(148,163,184,0.9)',
+                      fontSize: 12
+                    }}
+                  />
+                ) : null}
+                <ReferenceLine
+                  x={goalSeekCurrentValue}
+                  stroke="rgba(148,163,184,0.6)"
+                  strokeDasharray="2 6"
+                  ifOverflow="hidden"
+                  label={{
+                    value: 'Your input',
+                    position: 'insideBottomRight',
+                    fill: 'rgba(148,163,184,0.9)',
+                    fontSize: 12
+                  }}
+                />
+                <Line
+                  type="monotone"
+                  dataKey="netWorthAdvantage"
+                  name="Buyer net worth advantage"
+                  stroke={`url(#${sensitivityChartId}-grad-primary)`}
+                  strokeWidth={3}
+                  dot={false}
+                  isAnimationActive
+                  animationDuration={CHART_ANIMATION.durationMs}
+                  animationEasing={CHART_ANIMATION.easing}
+                  animationBegin={50}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      </section>
     </div>
   )
 }
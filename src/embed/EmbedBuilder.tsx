@@ -1,16 +1,20 @@
 import { useMemo, useState } from 'react'
 import { Code, Copy, Wand2 } from 'lucide-react'
+import { AffordabilityCalculator } from '../components/AffordabilityCalculator'
 import { CashOutCalculator } from '../components/CashOutCalculator'
 import { PurchaseCalculator } from '../components/PurchaseCalculator'
 import { RateBuydownCalculator } from '../components/RateBuydownCalculator'
 import { RefinanceCalculator } from '../components/RefinanceCalculator'
 import { RentVsBuyCalculator } from '../components/RentVsBuyCalculator'
 import { ReverseMortgageCalculator } from '../components/ReverseMortgageCalculator'
+import { DEFAULT_RENT_VS_BUY_ASSUMPTIONS, type RentVsBuyAssumptions } from '../finance/rentVsBuy'
+import { encodeRentVsBuyAssumptions } from './calculatorConfig'
 import { ThemeProvider } from './ThemeProvider'
 import { DEFAULT_THEME, type EmbedTheme, encodeThemeToParam, mergeTheme } from './theme'
 
 type CalculatorKey =
   | 'purchase'
+  | 'affordability'
   | 'refinance'
   | 'rent-vs-buy'
   | 'cash-out'
@@ -45,6 +49,9 @@ export function EmbedBuilder() {
   const [theme, setTheme] = useState<EmbedTheme>(DEFAULT_THEME)
   const [generatedCode, setGeneratedCode] = useState<string>('')
   const [copyState, setCopyState] = useState<'idle' | 'copied'>('idle')
+  const [rentVsBuyAssumptions, setRentVsBuyAssumptions] = useState<RentVsBuyAssumptions>(
+    DEFAULT_RENT_VS_BUY_ASSUMPTIONS
+  )
 
   const origin = typeof window !== 'undefined' ? window.location.origin : ''
 
@@ -52,10 +59,12 @@ export function EmbedBuilder() {
     switch (calculator) {
       case 'purchase':
         return <PurchaseCalculator />
+      case 'affordability':
+        return <AffordabilityCalculator />
       case 'refinance':
         return <RefinanceCalculator />
       case 'rent-vs-buy':
-        return <RentVsBuyCalculator />
+        return <RentVsBuyCalculator onAssumptionsChange={setRentVsBuyAssumptions} />
       case 'cash-out':
         return <CashOutCalculator />
       case 'rate-buydown':
@@ -70,7 +79,10 @@ export function EmbedBuilder() {
   function generate() {
     const merged = mergeTheme(theme)
     const t = encodeThemeToParam(merged)
-    const src = `${origin}/embed?calculator=${encodeURIComponent(calculator)}&t=${encodeURIComponent(t)}`
+    let src = `${origin}/embed?calculator=${encodeURIComponent(calculator)}&t=${encodeURIComponent(t)}`
+    if (calculator === 'rent-vs-buy') {
+      src += `&a=${encodeURIComponent(encodeRentVsBuyAssumptions(rentVsBuyAssumptions))}`
+    }
     const code = `<iframe src="${src}" style="border:0;width:100%;max-width:980px;height:820px;" loading="lazy" referrerpolicy="no-referrer-when-downgrade"></iframe>`
     setGeneratedCode(code)
     setCopyState('idle')
@@ -135,6 +147,7 @@ export function EmbedBuilder() {
               className="mt-2 w-full rounded-xl border border-[var(--mc-input-border)] bg-[var(--mc-input-bg)] px-3 py-2.5 text-sm font-medium text-[var(--mc-text)] shadow-sm outline-none focus:border-[var(--mc-primary)] focus:ring-2 focus:ring-[var(--mc-ring)]"
             >
               <option value="purchase">Purchase</option>
+              <option value="affordability">Affordability</option>
               <option value="refinance">Refinance</option>
               <option value="rent-vs-buy">Rent vs Buy</option>
               <option value="cash-out">Cash Out</option>
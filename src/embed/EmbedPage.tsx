@@ -1,14 +1,17 @@
+import { AffordabilityCalculator } from '../components/AffordabilityCalculator'
 import { CashOutCalculator } from '../components/CashOutCalculator'
 import { PurchaseCalculator } from '../components/PurchaseCalculator'
 import { RateBuydownCalculator } from '../components/RateBuydownCalculator'
 import { RefinanceCalculator } from '../components/RefinanceCalculator'
 import { RentVsBuyCalculator } from '../components/RentVsBuyCalculator'
 import { ReverseMortgageCalculator } from '../components/ReverseMortgageCalculator'
+import { decodeRentVsBuyAssumptions } from './calculatorConfig'
 import { ThemeProvider } from './ThemeProvider'
 import { decodeThemeFromParam } from './theme'
 
 type EmbedCalculatorKey =
   | 'purchase'
+  | 'affordability'
   | 'refinance'
   | 'rent-vs-buy'
   | 'cash-out'
@@ -20,6 +23,7 @@ function getCalculatorFromSearch(search: string): EmbedCalculatorKey {
   const raw = params.get('calculator') ?? 'purchase'
   const allowed: EmbedCalculatorKey[] = [
     'purchase',
+    'affordability',
     'refinance',
     'rent-vs-buy',
     'cash-out',
@@ -38,8 +42,11 @@ export function EmbedPage() {
     <ThemeProvider theme={theme} className="min-h-screen bg-[var(--mc-bg)] text-[var(--mc-text)]">
       <main className="mx-auto max-w-5xl p-4 sm:p-6">
         {calculator === 'purchase' && <PurchaseCalculator />}
+        {calculator === 'affordability' && <AffordabilityCalculator />}
         {calculator === 'refinance' && <RefinanceCalculator />}
-        {calculator === 'rent-vs-buy' && <RentVsBuyCalculator />}
+        {calculator === 'rent-vs-buy' && (
+          <RentVsBuyCalculator initialAssumptions={decodeRentVsBuyAssumptions(params.get('a'))} />
+        )}
         {calculator === 'cash-out' && <CashOutCalculator />}
         {calculator === 'rate-buydown' && <RateBuydownCalculator />}
         {calculator === 'reverse-mortgage' && <ReverseMortgageCalculator />}
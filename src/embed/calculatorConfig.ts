@@ -0,0 +1,29 @@
+import { DEFAULT_RENT_VS_BUY_ASSUMPTIONS, type RentVsBuyAssumptions } from '../finance/rentVsBuy'
+import { isFilingStatus } from '../finance/tax'
+import { base64UrlDecode, base64UrlEncode, isRecord, safeJsonParse } from './encoding'
+
+// Per-calculator settings carried in the embed URL alongside the theme.
+
+function coerceNonNegative(v: unknown, fallback: number) {
+  return typeof v === 'number' && Number.isFinite(v) && v >= 0 ? v : fallback
+}
+
+export function encodeRentVsBuyAssumptions(assumptions: RentVsBuyAssumptions) {
+  return base64UrlEncode(JSON.stringify(assumptions))
+}
+
+export function decodeRentVsBuyAssumptions(param: string | null | undefined): RentVsBuyAssumptions {
+  if (!param) return DEFAULT_RENT_VS_BUY_ASSUMPTIONS
+  const parsed = safeJsonParse(base64UrlDecode(param))
+  if (!parsed || !isRecord(parsed)) return DEFAULT_RENT_VS_BUY_ASSUMPTIONS
+
+  const result = { ...DEFAULT_RENT_VS_BUY_ASSUMPTIONS }
+  for (const key of Object.keys(result) as (keyof RentVsBuyAssumptions)[]) {
+    if (key === 'filingStatus') continue
+    result[key] = coerceNonNegative(parsed[key], DEFAULT_RENT_VS_BUY_ASSUMPTIONS[key])
+  }
+  if (isFilingStatus(parsed.filingStatus)) result.filingStatus = parsed.filingStatus
+  return result
+}
+
+
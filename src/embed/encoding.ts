@@ -0,0 +1,46 @@
+// URL-safe encoding shared by the embed query parameters.
+
+type JsonPrimitive = string | number | boolean | null
+type Json = JsonPrimitive | Json[] | { [k: string]: Json }
+
+export function safeJsonParse(input: string): Json | undefined {
+  try {
+    return JSON.parse(input) as Json
+  } catch {
+    return undefined
+  }
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+export function base64UrlEncode(input: string) {
+  const btoaFn: ((s: string) => string) | undefined = (globalThis as any).btoa
+  const BufferCtor: any = (globalThis as any).Buffer
+
+  const b64 = btoaFn
+    ? btoaFn(unescape(encodeURIComponent(input)))
+    : BufferCtor
+      ? BufferCtor.from(input, 'utf8').toString('base64')
+      : ''
+  return b64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/g, '')
+}
+
+export function base64UrlDecode(input: string) {
+  const b64 = input.replace(/-/g, '+').replace(/_/g, '/')
+  const padded = b64 + '='.repeat((4 - (b64.length % 4)) % 4)
+  const atobFn: ((s: string) => string) | undefined = (globalThis as any).atob
+  const BufferCtor: any = (globalThis as any).Buffer
+
+  // Hand-edited or truncated URLs decode to nothing rather than throwing.
+  try {
+    if (atobFn) return decodeURIComponent(escape(atobFn(padded)))
+    if (BufferCtor) return BufferCtor.from(padded, 'base64').toString('utf8')
+  } catch {
+    return ''
+  }
+  return ''
+}
+
+
@@ -1,3 +1,5 @@
+import { base64UrlDecode, base64UrlEncode, isRecord, safeJsonParse } from './encoding'
+
 export type EmbedTheme = {
   /** Page background behind the calculator */
   bg: string
@@ -52,21 +54,6 @@ export const DEFAULT_THEME: EmbedTheme = {
   }
 }
 
-type JsonPrimitive = string | number | boolean | null
-type Json = JsonPrimitive | Json[] | { [k: string]: Json }
-
-function safeJsonParse(input: string): Json | undefined {
-  try {
-    return JSON.parse(input) as Json
-  } catch {
-    return undefined
-  }
-}
-
-function isRecord(value: unknown): value is Record<string, unknown> {
-  return typeof value === 'object' && value !== null && !Array.isArray(value)
-}
-
 function coerceColor(v: unknown, fallback: string) {
   return typeof v === 'string' && v.trim().length > 0 ? v : fallback
 }
@@ -84,29 +71,6 @@ export function mergeTheme(partial: Partial<EmbedTheme> | undefined): EmbedTheme
   }
 }
 
-function base64UrlEncode(input: string) {
-  const btoaFn: ((s: string) => string) | undefined = (globalThis as any).btoa
-  const BufferCtor: any = (globalThis as any).Buffer
-
-  const b64 = btoaFn
-    ? btoaFn(unescape(encodeURIComponent(input)))
-    : BufferCtor
-      ? BufferCtor.from(input, 'utf8').toString('base64')
-      : ''
-  return b64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/g, '')
-}
-
-function base64UrlDecode(input: string) {
-  const b64 = input.replace(/-/g, '+').replace(/_/g, '/')
-  const padded = b64 + '='.repeat((4 - (b64.length % 4)) % 4)
-  const atobFn: ((s: string) => string) | undefined = (globalThis as any).atob
-  const BufferCtor: any = (globalThis as any).Buffer
-
-  if (atobFn) return decodeURIComponent(escape(atobFn(padded)))
-  if (BufferCtor) return BufferCtor.from(padded, 'base64').toString('utf8')
-  return ''
-}
-
 export function encodeThemeToParam(theme: EmbedTheme) {
   return base64UrlEncode(JSON.stringify(theme))
 }
@@ -0,0 +1,127 @@
+import { calculateMonthlyPrincipalAndInterest, clampNonNegative } from './amortization'
+import { type LoanProgram, MIN_DOWN_PAYMENT_PERCENT } from './programs'
+
+// Maximum purchase price from debt-to-income limits. Housing cost is principal and interest plus
+// property tax, homeowners insurance and HOA dues; the front-end ratio caps housing cost alone and
+// the back-end ratio caps housing cost plus other monthly debts.
+
+export type DtiLimits = {
+  frontEndPercent: number
+  backEndPercent: number
+}
+
+/** Typical underwriting DTI targets. VA has no front-end ratio, so it matches the back-end limit. */
+export const DTI_PRESETS: Record<LoanProgram, DtiLimits> = {
+  conventional: { frontEndPercent: 28, backEndPercent: 36 },
+  fha: { frontEndPercent: 31, backEndPercent: 43 },
+  va: { frontEndPercent: 41, backEndPercent: 41 },
+  usda: { frontEndPercent: 29, backEndPercent: 41 }
+}
+
+export type AffordabilityConstraint = 'front-end' | 'back-end' | 'down-payment'
+
+export type AffordabilityInput = {
+  annualGrossIncome: number
+  monthlyDebts: number
+  downPaymentFunds: number
+  annualRatePercent: number
+  termYears: number
+  /** Annual property tax as a percent of the home price */
+  propertyTaxRatePercent: number
+  annualInsurance: number
+  monthlyHoa: number
+  limits: DtiLimits
+  /** Program whose minimum down payment caps the loan-to-value; defaults to conventional */
+  program?: LoanProgram
+}
+
+export type AffordabilityResult = {
+  monthlyIncome: number
+  /** Housing payment allowed by the front-end ratio */
+  frontEndBudget: number
+  /** Housing payment allowed by the back-end ratio after other debts */
+  backEndBudget: number
+  bindingConstraint: AffordabilityConstraint
+  maxLoanAmount: number
+  maxHomePrice: number
+  downPayment: number
+  monthlyPrincipalAndInterest: number
+  monthlyTax: number
+  monthlyInsurance: number
+  monthlyHoa: number
+  totalHousingPayment: number
+  frontEndRatioPercent: number
+  backEndRatioPercent: number
+}
+
+export function calculateAffordability(input: AffordabilityInput): AffordabilityResult {
+  const monthlyIncome = clampNonNegative(input.annualGrossIncome) / 12
+  const monthlyDebts = clampNonNegative(input.monthlyDebts)
+  const down = clampNonNegative(input.downPaymentFunds)
+  const taxRate = clampNonNegative(input.propertyTaxRatePercent) / 100
+  const monthlyInsurance = clampNonNegative(input.annualInsurance) / 12
+  const monthlyHoa = clampNonNegative(input.monthlyHoa)
+
+  const frontEndBudget = (monthlyIncome * clampNonNegative(input.limits.frontEndPercent)) / 100
+  const backEndBudget = Math.max(
+    0,
+    (monthlyIncome * clampNonNegative(input.limits.backEndPercent)) / 100 - monthlyDebts
+  )
+  const housingBudget = Math.min(frontEndBudget, backEndBudget)
+
+  // P&I and tax both scale linearly with the loan, so the payment-limited loan has a closed form.
+  const paymentPerDollar = calculateMonthlyPrincipalAndInterest(
+    1,
+    input.annualRatePercent,
+    input.termYears
+  )
+  const available = housingBudget - monthlyInsurance - monthlyHoa - (down * taxRate) / 12
+  const paymentLimitedLoan =
+    paymentPerDollar + taxRate / 12 > 0
+      ? Math.max(0, available / (paymentPerDollar + taxRate / 12))
+      : 0
+
+  // The down payment must still cover the program minimum at the resulting price.
+  const minDownFraction = MIN_DOWN_PAYMENT_PERCENT[input.program ?? 'conventional'] / 100
+  const downLimitedLoan =
+    minDownFraction > 0 ? (down * (1 - minDownFraction)) / minDownFraction : Infinity
+
+  const maxLoanAmount = Math.min(paymentLimitedLoan, downLimitedLoan)
+  const bindingConstraint: AffordabilityConstraint =
+    downLimitedLoan < paymentLimitedLoan
+      ? 'down-payment'
+      : frontEndBudget <= backEndBudget
+        ? 'front-end'
+        : 'back-end'
+
+  // When fixed costs already use up the budget, even an all-cash purchase is capped by its tax bill.
+  const cashPriceLimit =
+    taxRate > 0
+      ? Math.max(0, housingBudget - monthlyInsurance - monthlyHoa) / (taxRate / 12)
+      : Infinity
+  const maxHomePrice = maxLoanAmount > 0 ? maxLoanAmount + down : Math.min(down, cashPriceLimit)
+  const monthlyPrincipalAndInterest = maxLoanAmount * paymentPerDollar
+  const monthlyTax = (maxHomePrice * taxRate) / 12
+  const totalHousingPayment =
+    monthlyPrincipalAndInterest + monthlyTax + monthlyInsurance + monthlyHoa
+
+  return {
+    monthlyIncome,
+    frontEndBudget,
+    backEndBudget,
+    bindingConstraint,
+    maxLoanAmount,
+    maxHomePrice,
+    downPayment: Math.min(down, maxHomePrice),
+    monthlyPrincipalAndInterest,
+    monthlyTax,
+    monthlyInsurance,
+    monthlyHoa,
+    totalHousingPayment,
+    frontEndRatioPercent: monthlyIncome > 0 ? (totalHousingPayment / monthlyIncome) * 100 : 0,
+    backEndRatioPercent:
+      monthlyIncome > 0 ? ((totalHousingPayment + monthlyDebts) / monthlyIncome) * 100 : 0
+  }
+}
+
+
@@ -0,0 +1,326 @@
+// Framework-free mortgage math shared by every calculator. Everything here is a pure function of
+// its inputs so results stay identical across tabs and can be reused outside React.
+
+export function clampNonNegative(n: number) {
+  return Number.isFinite(n) ? Math.max(0, n) : 0
+}
+
+// Balances below half a cent are treated as paid off to avoid float dust in the last row.
+const BALANCE_EPSILON = 0.005
+
+export function calculateMonthlyPrincipalAndInterest(
+  principal: number,
+  annualRatePercent: number,
+  termYears: number
+) {
+  const months = Math.round(clampNonNegative(termYears) * 12)
+  return calculatePaymentForMonths(principal, annualRatePercent, months)
+}
+
+/** Level payment that retires `principal` over exactly `months` payments. */
+export function calculatePaymentForMonths(
+  principal: number,
+  annualRatePercent: number,
+  months: number
+) {
+  const P = clampNonNegative(principal)
+  const n = Math.round(clampNonNegative(months))
+  if (P === 0 || n === 0) return 0
+
+  const r = clampNonNegative(annualRatePercent) / 100 / 12
+  if (r === 0) return P / n
+
+  const pow = Math.pow(1 + r, n)
+  return (P * r * pow) / (pow - 1)
+}
+
+export type OneTimePayment = {
+  /** 1-based payment number the extra principal is applied with */
+  month: number
+  amount: number
+}
+
+export type ExtraPayments = {
+  /** Extra principal added to every monthly payment */
+  monthly?: number
+  /** Lump sum paid once per loan year */
+  annual?: number
+  /** Month of each loan year (1–12) the lump sum is paid in; defaults to 12 */
+  annualMonth?: number
+  oneTime?: OneTimePayment[]
+}
+
+export type RateChange = {
+  /** 1-based payment number the new rate first applies to */
+  month: number
+  annualRatePercent: number
+}
+
+export type AmortizationInput = {
+  principal: number
+  /** Note rate, or the initial rate when `rateChanges` are given */
+  annualRatePercent: number
+  termYears: number
+  extraPayments?: ExtraPayments
+  /** Later rate resets (e.g. ARM adjustments); the payment is recast over the remaining term at each */
+  rateChanges?: RateChange[]
+  /** Leading months of interest-only payments; the loan then amortizes over the remaining term */
+  interestOnlyMonths?: number
+}
+
+export type AmortizationRow = {
+  /** 1-based payment number */
+  month: number
+  /** Annual rate charged on this payment */
+  annualRatePercent: number
+  /** Required principal & interest payment (before any extra principal) */
+  scheduledPayment: number
+  /** Total paid this month (interest + all principal, including extra) */
+  payment: number
+  interest: number
+  principal: number
+  /** Portion of `principal` paid on top of the scheduled payment */
+  extraPrincipal: number
+  /** Balance remaining after this payment */
+  balance: number
+  cumulativeInterest: number
+  cumulativePrincipal: number
+  cumulativePaid: number
+}
+
+export type AmortizationYear = {
+  /** 1-based loan year */
+  year: number
+  payment: number
+  interest: number
+  principal: number
+  extraPrincipal: number
+  /** Balance remaining at the end of this loan year */
+  balance: number
+  cumulativeInterest: number
+  cumulativePrincipal: number
+  cumulativePaid: number
+}
+
+export type AmortizationSchedule = {
+  principal: number
+  /** Required payment for the first month */
+  monthlyPayment: number
+  rows: AmortizationRow[]
+  totalInterest: number
+  totalPaid: number
+  /** Number of the final payment (0 when there is nothing to repay) */
+  payoffMonth: number
+}
+
+function extraPrincipalForMonth(extra: ExtraPayments | undefined, month: number) {
+  if (!extra) return 0
+
+  let amount = clampNonNegative(extra.monthly ?? 0)
+
+  const annualMonth = Math.min(12, Math.max(1, Math.round(extra.annualMonth ?? 12)))
+  if ((month - 1) % 12 === annualMonth - 1) amount += clampNonNegative(extra.annual ?? 0)
+
+  for (const payment of extra.oneTime ?? []) {
+    if (Math.round(payment.month) === month) amount += clampNonNegative(payment.amount)
+  }
+
+  return amount
+}
+
+export function hasExtraPayments(extra: ExtraPayments | undefined) {
+  if (!extra) return false
+  return (
+    clampNonNegative(extra.monthly ?? 0) > 0 ||
+    clampNonNegative(extra.annual ?? 0) > 0 ||
+    (extra.oneTime ?? []).some(p => clampNonNegative(p.amount) > 0 && p.month >= 1)
+  )
+}
+
+export function buildAmortizationSchedule({
+  principal,
+  annualRatePercent,
+  termYears,
+  extraPayments,
+  rateChanges = [],
+  interestOnlyMonths = 0
+}: AmortizationInput): AmortizationSchedule {
+  const P = clampNonNegative(principal)
+  const n = Math.round(clampNonNegative(termYears) * 12)
+  const ioMonths = Math.min(n, Math.round(clampNonNegative(interestOnlyMonths)))
+  const monthlyPayment =
+    ioMonths > 0
+      ? (P * clampNonNegative(annualRatePercent)) / 100 / 12
+      : calculatePaymentForMonths(P, annualRatePercent, n)
+  const changesByMonth = new Map(rateChanges.map(c => [Math.round(c.month), c.annualRatePercent]))
+
+  const rows: AmortizationRow[] = []
+  let balance = P
+  let ratePercent = clampNonNegative(annualRatePercent)
+  let payment = monthlyPayment
+  let cumulativeInterest = 0
+  let cumulativePrincipal = 0
+
+  for (let month = 1; month <= n && balance > BALANCE_EPSILON; month++) {
+    const newRate = changesByMonth.get(month)
+    if (month > 1 && newRate !== undefined) ratePercent = clampNonNegative(newRate)
+    // Recast whenever the rate resets or the interest-only period ends.
+    if ((month > 1 && newRate !== undefined) || (ioMonths > 0 && month === ioMonths + 1)) {
+      payment = calculatePaymentForMonths(balance, ratePercent, n - month + 1)
+    }
+
+    const interest = (balance * ratePercent) / 100 / 12
+    // The final payment absorbs any rounding drift so the loan always closes at exactly zero.
+    const scheduledPrincipal =
+      month === n ? balance : month <= ioMonths ? 0 : Math.min(balance, payment - interest)
+    const extraPrincipal = Math.min(
+      balance - scheduledPrincipal,
+      extraPrincipalForMonth(extraPayments, month)
+    )
+    const principalPaid = scheduledPrincipal + extraPrincipal
+    balance = Math.max(0, balance - principalPaid)
+    if (balance <= BALANCE_EPSILON) balance = 0
+
+    cumulativeInterest += interest
+    cumulativePrincipal += principalPaid
+    rows.push({
+      month,
+      annualRatePercent: ratePercent,
+      scheduledPayment: interest + scheduledPrincipal,
+      payment: interest + principalPaid,
+      interest,
+      principal: principalPaid,
+      extraPrincipal,
+      balance,
+      cumulativeInterest,
+      cumulativePrincipal,
+      cumulativePaid: cumulativeInterest + cumulativePrincipal
+    })
+  }
+
+  return {
+    principal: P,
+    monthlyPayment,
+    rows,
+    totalInterest: cumulativeInterest,
+    totalPaid: cumulativeInterest + cumulativePrincipal,
+    payoffMonth: rows.length
+  }
+}
+
+/** Rolls monthly rows up into loan years (months 1–12 are year 1, and so on). */
+export function summarizeByYear(rows: AmortizationRow[]): AmortizationYear[] {
+  const years: AmortizationYear[] = []
+
+  for (const row of rows) {
+    const yearIndex = Math.ceil(row.month / 12) - 1
+    const current = years[yearIndex]
+    if (!current) {
+      years[yearIndex] = {
+        year: yearIndex + 1,
+        payment: row.payment,
+        interest: row.interest,
+        principal: row.principal,
+        extraPrincipal: row.extraPrincipal,
+        balance: row.balance,
+        cumulativeInterest: row.cumulativeInterest,
+        cumulativePrincipal: row.cumulativePrincipal,
+        cumulativePaid: row.cumulativePaid
+      }
+      continue
+    }
+
+    current.payment += row.payment
+    current.interest += row.interest
+    current.principal += row.principal
+    current.extraPrincipal += row.extraPrincipal
+    current.balance = row.balance
+    current.cumulativeInterest = row.cumulativeInterest
+    current.cumulativePrincipal = row.cumulativePrincipal
+    current.cumulativePaid = row.cumulativePaid
+  }
+
+  return years
+}
+
+/** Balance remaining after `month` payments (the original principal for month 0). */
+export function balanceAfterMonth(schedule: AmortizationSchedule, month: number) {
+  if (month <= 0) return schedule.principal
+  const row = schedule.rows[Math.min(month, schedule.rows.length) - 1]
+  return row ? row.balance : 0
+}
+
+export type ScheduleComparison = {
+  monthsSaved: number
+  interestSaved: number
+}
+
+/** How much sooner and cheaper `alternative` pays off than `baseline`. */
+export function compareSchedules(
+  baseline: AmortizationSchedule,
+  alternative: AmortizationSchedule
+): ScheduleComparison {
+  return {
+    monthsSaved: baseline.payoffMonth - alternative.payoffMonth,
+    interestSaved: baseline.totalInterest - alternative.totalInterest
+  }
+}
+
+export type BiweeklySchedule = {
+  /** Half of the standard monthly payment, paid every two weeks */
+  halfPayment: number
+  /** Number of biweekly payments made */
+  payments: number
+  totalInterest: number
+  totalPaid: number
+  /** Loan month in which the final biweekly payment falls */
+  payoffMonth: number
+  /** Balance at the end of each loan year */
+  yearEndBalances: number[]
+}
+
+export const BIWEEKLY_PAYMENTS_PER_YEAR = 26
+
+/**
+ * Accelerated biweekly plan: half the monthly payment every two weeks, so 26 half-payments (13 full
+ * payments) land each year. Interest accrues per biweekly period.
+ */
+export function buildBiweeklySchedule({
+  principal,
+  annualRatePercent,
+  termYears
+}: Pick<AmortizationInput, 'principal' | 'annualRatePercent' | 'termYears'>): BiweeklySchedule {
+  const P = clampNonNegative(principal)
+  const halfPayment = calculateMonthlyPrincipalAndInterest(P, annualRatePercent, termYears) / 2
+  const r = clampNonNegative(annualRatePercent) / 100 / BIWEEKLY_PAYMENTS_PER_YEAR
+  const maxPayments = Math.ceil(clampNonNegative(termYears) * BIWEEKLY_PAYMENTS_PER_YEAR)
+
+  let balance = P
+  let payments = 0
+  let totalInterest = 0
+  let totalPaid = 0
+  const yearEndBalances: number[] = []
+
+  while (balance > BALANCE_EPSILON && payments < maxPayments && halfPayment > 0) {
+    const interest = balance * r
+    const principalPaid = Math.min(balance, halfPayment - interest)
+    balance = Math.max(0, balance - principalPaid)
+    if (balance <= BALANCE_EPSILON) balance = 0
+
+    payments++
+    totalInterest += interest
+    totalPaid += interest + principalPaid
+    if (payments % BIWEEKLY_PAYMENTS_PER_YEAR === 0 || balance === 0) yearEndBalances.push(balance)
+  }
+
+  return {
+    halfPayment,
+    payments,
+    totalInterest,
+    totalPaid,
+    payoffMonth: Math.ceil((payments * 12) / BIWEEKLY_PAYMENTS_PER_YEAR),
+    yearEndBalances
+  }
+}
+
+
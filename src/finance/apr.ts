@@ -0,0 +1,54 @@
+import { clampNonNegative } from './amortization'
+
+// Annual percentage rate in the Regulation Z sense: the rate at which the scheduled payments
+// discount back to the amount financed, i.e. the loan amount less prepaid finance charges.
+
+export type AprInput = {
+  loanAmount: number
+  /** Finance charges paid at closing or financed into the loan: points, origination, upfront MI */
+  prepaidFinanceCharges: number
+  /** Scheduled payment for each month, including any monthly mortgage insurance */
+  payments: number[]
+}
+
+const MAX_ITERATIONS = 200
+/** Stop once the monthly rate bracket is narrower than this (about 0.0000012% APR). */
+const RATE_TOLERANCE = 1e-9
+
+function presentValue(payments: number[], monthlyRate: number) {
+  let pv = 0
+  let discount = 1
+  for (const payment of payments) {
+    discount /= 1 + monthlyRate
+    pv += payment * discount
+  }
+  return pv
+}
+
+/**
+ * Solves for the APR by bisection on the monthly rate. The present value of a positive payment
+ * stream falls monotonically as the rate rises, so bisection always converges where Newton's method
+ * can overshoot on interest-only, adjustable or zero-rate payment streams.
+ *
+ * Returns null when there is nothing to solve (no payments or nothing financed).
+ */
+export function calculateApr({ loanAmount, prepaidFinanceCharges, payments }: AprInput) {
+  const amountFinanced = clampNonNegative(loanAmount) - clampNonNegative(prepaidFinanceCharges)
+  const stream = payments.map(clampNonNegative)
+  const totalPaid = stream.reduce((sum, payment) => sum + payment, 0)
+  if (amountFinanced <= 0 || totalPaid <= 0) return null
+
+  // Payments that never repay the amount financed imply a negative rate; allow the bracket to go
+  // below zero rather than report a misleading 0%.
+  let low = -0.5
+  let high = 1
+  for (let i = 0; i < MAX_ITERATIONS && high - low > RATE_TOLERANCE; i++) {
+    const mid = (low + high) / 2
+    if (presentValue(stream, mid) > amountFinanced) low = mid
+    else high = mid
+  }
+
+  return ((low + high) / 2) * 12 * 100
+}
+
+
@@ -0,0 +1,213 @@
+import {
+  type AmortizationSchedule,
+  type ExtraPayments,
+  type RateChange,
+  buildAmortizationSchedule,
+  clampNonNegative
+} from './amortization'
+
+// Adjustable-rate mortgage projection. After the fixed period the rate resets to index + margin,
+// rounded to the nearest 1/8%, bounded by the initial, periodic and lifetime caps and floored at
+// the margin.
+
+export type ArmProduct = '5/1' | '7/1' | '10/1' | '5/6' | '7/6'
+
+export type ArmProductDef = {
+  key: ArmProduct
+  label: string
+  fixedMonths: number
+  adjustmentMonths: number
+  /** Typical initial / periodic / lifetime caps, in percentage points */
+  defaultCaps: ArmCaps
+}
+
+export type ArmCaps = {
+  initial: number
+  periodic: number
+  lifetime: number
+}
+
+export const ARM_PRODUCTS: ArmProductDef[] = [
+  {
+    key: '5/1',
+    label: '5/1 ARM',
+    fixedMonths: 60,
+    adjustmentMonths: 12,
+    defaultCaps: { initial: 2, periodic: 2, lifetime: 5 }
+  },
+  {
+    key: '7/1',
+    label: '7/1 ARM',
+    fixedMonths: 84,
+    adjustmentMonths: 12,
+    defaultCaps: { initial: 5, periodic: 2, lifetime: 5 }
+  },
+  {
+    key: '10/1',
+    label: '10/1 ARM',
+    fixedMonths: 120,
+    adjustmentMonths: 12,
+    defaultCaps: { initial: 5, periodic: 2, lifetime: 5 }
+  },
+  {
+    key: '5/6',
+    label: '5/6 SOFR ARM',
+    fixedMonths: 60,
+    adjustmentMonths: 6,
+    defaultCaps: { initial: 2, periodic: 1, lifetime: 5 }
+  },
+  {
+    key: '7/6',
+    label: '7/6 SOFR ARM',
+    fixedMonths: 84,
+    adjustmentMonths: 6,
+    defaultCaps: { initial: 5, periodic: 1, lifetime: 5 }
+  }
+]
+
+export function getArmProduct(key: ArmProduct) {
+  return ARM_PRODUCTS.find(p => p.key === key) ?? ARM_PRODUCTS[0]
+}
+
+export type IndexPathKind = 'flat' | 'rising' | 'worst-case' | 'custom'
+
+export const INDEX_PATHS: { key: IndexPathKind; label: string }[] = [
+  { key: 'flat', label: 'Flat (index unchanged)' },
+  { key: 'rising', label: 'Rising' },
+  { key: 'worst-case', label: 'Worst case (max caps)' },
+  { key: 'custom', label: 'Custom' }
+]
+
+export type ArmInput = {
+  principal: number
+  termYears: number
+  product: ArmProduct
+  initialRatePercent: number
+  indexPercent: number
+  marginPercent: number
+  caps: ArmCaps
+  indexPath: IndexPathKind
+  /** Index increase per year for the rising path */
+  risingIndexPerYear?: number
+  /** Index value at each adjustment for the custom path; the last value carries forward */
+  customIndexPath?: number[]
+  extraPayments?: ExtraPayments
+  interestOnlyMonths?: number
+}
+
+export type ArmAdjustment = {
+  /** 1-based adjustment number */
+  adjustment: number
+  /** First payment at the new rate */
+  month: number
+  indexPercent: number
+  /** Index + margin before caps */
+  fullyIndexedRatePercent: number
+  ratePercent: number
+  payment: number
+}
+
+export type ArmProjection = {
+  schedule: AmortizationSchedule
+  adjustments: ArmAdjustment[]
+  /** Highest required payment along the projected path */
+  maxPayment: number
+  maxRatePercent: number
+}
+
+function roundToEighth(ratePercent: number) {
+  return Math.round(ratePercent * 8) / 8
+}
+
+function indexAtAdjustment(input: ArmInput, adjustment: number, month: number) {
+  const start = clampNonNegative(input.indexPercent)
+  switch (input.indexPath) {
+    case 'rising': {
+      const yearsElapsed = (month - 1) / 12
+      return start + clampNonNegative(input.risingIndexPerYear ?? 1) * yearsElapsed
+    }
+    case 'custom': {
+      const path = input.customIndexPath ?? []
+      if (path.length === 0) return start
+      return clampNonNegative(path[Math.min(adjustment, path.length) - 1])
+    }
+    default:
+      return start
+  }
+}
+
+function projectRateChanges(input: ArmInput) {
+  const product = getArmProduct(input.product)
+  const termMonths = Math.round(clampNonNegative(input.termYears) * 12)
+  const initialRate = clampNonNegative(input.initialRatePercent)
+  const margin = clampNonNegative(input.marginPercent)
+  const lifetimeMax = initialRate + clampNonNegative(input.caps.lifetime)
+  const floor = Math.min(margin, initialRate)
+
+  const changes: (RateChange & { indexPercent: number; fullyIndexedRatePercent: number })[] = []
+  let previousRate = initialRate
+
+  for (
+    let month = product.fixedMonths + 1, adjustment = 1;
+    month <= termMonths;
+    month += product.adjustmentMonths, adjustment++
+  ) {
+    const cap = adjustment === 1 ? input.caps.initial : input.caps.periodic
+    const maxRate = Math.min(lifetimeMax, previousRate + clampNonNegative(cap))
+    const minRate = Math.max(floor, previousRate - clampNonNegative(cap))
+
+    const indexPercent = indexAtAdjustment(input, adjustment, month)
+    const fullyIndexed = roundToEighth(indexPercent + margin)
+    const rate =
+      input.indexPath === 'worst-case' ? maxRate : Math.min(maxRate, Math.max(minRate, fullyIndexed))
+
+    changes.push({
+      month,
+      annualRatePercent: rate,
+      indexPercent,
+      fullyIndexedRatePercent: input.indexPath === 'worst-case' ? maxRate : fullyIndexed
+    })
+    previousRate = rate
+  }
+
+  return changes
+}
+
+export function projectArm(input: ArmInput): ArmProjection {
+  const changes = projectRateChanges(input)
+  const schedule = buildAmortizationSchedule({
+    principal: input.principal,
+    annualRatePercent: input.initialRatePercent,
+    termYears: input.termYears,
+    extraPayments: input.extraPayments,
+    rateChanges: changes,
+    interestOnlyMonths: input.interestOnlyMonths
+  })
+
+  const adjustments: ArmAdjustment[] = []
+  changes.forEach((change, i) => {
+    const row = schedule.rows[change.month - 1]
+    // Adjustments after payoff never happen.
+    if (!row) return
+    adjustments.push({
+      adjustment: i + 1,
+      month: change.month,
+      indexPercent: change.indexPercent,
+      fullyIndexedRatePercent: change.fullyIndexedRatePercent,
+      ratePercent: change.annualRatePercent,
+      payment: row.scheduledPayment
+    })
+  })
+
+  return {
+    schedule,
+    adjustments,
+    maxPayment: Math.max(schedule.monthlyPayment, ...adjustments.map(a => a.payment)),
+    maxRatePercent: Math.max(
+      clampNonNegative(input.initialRatePercent),
+      ...adjustments.map(a => a.ratePercent)
+    )
+  }
+}
+
+
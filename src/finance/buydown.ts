@@ -0,0 +1,440 @@
+import {
+  buildAmortizationSchedule,
+  calculateMonthlyPrincipalAndInterest,
+  clampNonNegative
+} from './amortization'
+
+// Rate buydowns. A permanent buydown pays discount points at closing for a lower note rate over the
+// life of the loan; a temporary buydown keeps the note rate and subsidizes the payment for the first
+// few years.
+
+/** Typical pricing when no ladder is entered: each point lowers the rate by about a quarter point. */
+export const DEFAULT_RATE_REDUCTION_PER_POINT = 0.25
+
+export type PointsLadderRow = {
+  id: number
+  /** Discount points; one point is 1% of the loan amount */
+  points: number
+  ratePercent: number
+}
+
+export type PermanentBuydownInput = {
+  loanAmount: number
+  baseRatePercent: number
+  reducedRatePercent: number
+  points: number
+  termYears: number
+  /** Annual return the borrower could earn by keeping the cash instead */
+  cashReturnPercent: number
+}
+
+export type PermanentBuydownResult = {
+  reducedRatePercent: number
+  upfrontCost: number
+  baseMonthlyPayment: number
+  monthlyPayment: number
+  monthlySavings: number
+  /** First month the payment savings add up to the upfront cost; null if they never do */
+  breakEvenMonth: number | null
+  /**
+   * First month the invested savings are worth more than the upfront cost would have grown to,
+   * and stay ahead; equals `breakEvenMonth` at a 0% return.
+   */
+  breakEvenMonthVsCash: number | null
+  lifetimeInterestSaved: number
+  /** Invested savings minus the invested cash at the end of the term, in future dollars */
+  advantageVsCashAtTerm: number
+}
+
+export function reducedRateForPoints(
+  baseRatePercent: number,
+  points: number,
+  reductionPerPoint: number
+) {
+  return Math.max(
+    0,
+    clampNonNegative(baseRatePercent) -
+      clampNonNegative(points) * clampNonNegative(reductionPerPoint)
+  )
+}
+
+export function analyzePermanentBuydown({
+  loanAmount,
+  baseRatePercent,
+  reducedRatePercent,
+  points,
+  termYears,
+  cashReturnPercent
+}: PermanentBuydownInput): PermanentBuydownResult {
+  const base = buildAmortizationSchedule({
+    principal: loanAmount,
+    annualRatePercent: baseRatePercent,
+    termYears
+  })
+  const reduced = buildAmortizationSchedule({
+    principal: loanAmount,
+    annualRatePercent: reducedRatePercent,
+    termYears
+  })
+  const upfrontCost = (base.principal * clampNonNegative(points)) / 100
+  const monthlySavings = base.monthlyPayment - reduced.monthlyPayment
+  const monthlyReturn = clampNonNegative(cashReturnPercent) / 100 / 12
+
+  let investedSavings = 0
+  let investedCash = upfrontCost
+  let breakEvenMonthVsCash: number | null = null
+  for (let month = 1; month <= base.rows.length; month++) {
+    investedSavings = investedSavings * (1 + monthlyReturn) + monthlySavings
+    investedCash *= 1 + monthlyReturn
+    if (investedSavings >= investedCash) {
+      if (breakEvenMonthVsCash === null) breakEvenMonthVsCash = month
+    } else {
+      breakEvenMonthVsCash = null
+    }
+  }
+
+  return {
+    reducedRatePercent,
+    upfrontCost,
+    baseMonthlyPayment: base.monthlyPayment,
+    monthlyPayment: reduced.monthlyPayment,
+    monthlySavings,
+    breakEvenMonth:
+      upfrontCost <= 0 ? 0 : monthlySavings > 0 ? Math.ceil(upfrontCost / monthlySavings) : null,
+    breakEvenMonthVsCash: upfrontCost <= 0 ? 0 : breakEvenMonthVsCash,
+    lifetimeInterestSaved: base.totalInterest - reduced.totalInterest,
+    advantageVsCashAtTerm: investedSavings - investedCash
+  }
+}
+
+export type TemporaryBuydownPreset = '3-2-1' | '2-1' | '1-1' | '1-0'
+
+/** Rate reduction, in percentage points, for each subsidized year. */
+export const TEMPORARY_BUYDOWN_PRESETS: Record<TemporaryBuydownPreset, number[]> = {
+  '3-2-1': [3, 2, 1],
+  '2-1': [2, 1],
+  '1-1': [1, 1],
+  '1-0': [1]
+}
+
+export type TemporaryBuydownInput = {
+  loanAmount: number
+  noteRatePercent: number
+  termYears: number
+  /** Rate reduction for each subsidized year, starting with year 1 */
+  steps: number[]
+}
+
+export type TemporaryBuydownYear = {
+  year: number
+  ratePercent: number
+  monthlyPayment: number
+  /** Note-rate payment minus the reduced payment */
+  monthlyShortfall: number
+}
+
+export type TemporaryBuydownSchedule = {
+  noteRateMonthlyPayment: number
+  /** One entry per subsidized year; later years pay the note-rate payment */
+  subsidizedYears: TemporaryBuydownYear[]
+  /** Escrowed subsidy: every month's shortfall over the subsidized years */
+  totalSubsidy: number
+}
+
+/**
+ * The borrower's payment in each subsidized year is the full-term payment at the reduced rate;
+ * the note rate and the amortization schedule are unchanged, with the shortfall paid from escrow.
+ */
+export function buildTemporaryBuydownSchedule({
+  loanAmount,
+  noteRatePercent,
+  termYears,
+  steps
+}: TemporaryBuydownInput): TemporaryBuydownSchedule {
+  const noteRate = clampNonNegative(noteRatePercent)
+  const noteRateMonthlyPayment = calculateMonthlyPrincipalAndInterest(
+    loanAmount,
+    noteRate,
+    termYears
+  )
+  const subsidizedYears = steps.slice(0, Math.max(0, Math.round(termYears))).map((step, i) => {
+    const ratePercent = Math.max(0, noteRate - clampNonNegative(step))
+    const monthlyPayment = calculateMonthlyPrincipalAndInterest(loanAmount, ratePercent, termYears)
+    return {
+      year: i + 1,
+      ratePercent,
+      monthlyPayment,
+      monthlyShortfall: noteRateMonthlyPayment - monthlyPayment
+    }
+  })
+  return {
+    noteRateMonthlyPayment,
+    subsidizedYears,
+    totalSubsidy: subsidizedYears.reduce((sum, year) => sum + year.monthlyShortfall * 12, 0)
+  }
+}
+
+export type ConcessionProgram = 'conventional' | 'fha' | 'va'
+
+export const CONCESSION_PROGRAM_LABELS: Record<ConcessionProgram, string> = {
+  conventional: 'Conventional',
+  fha: 'FHA',
+  va: 'VA'
+}
+
+export type ConcessionLimit = {
+  limitPercent: number
+  /** The rule that sets the limit, for messaging */
+  rule: string
+}
+
+/**
+ * Interested-party contribution limits, as a percent of the sale price: conventional limits step
+ * down as LTV rises (primary and second homes), FHA allows 6% and VA 4% in concessions.
+ */
+export function sellerContributionLimit(
+  program: ConcessionProgram,
+  ltvPercent: number
+): ConcessionLimit {
+  if (program === 'fha') return { limitPercent: 6, rule: 'FHA: 6% of the sale price' }
+  if (program === 'va') return { limitPercent: 4, rule: 'VA: 4% of the sale price in concessions' }
+  if (ltvPercent > 90) {
+    return { limitPercent: 3, rule: 'Conventional above 90% LTV: 3% of the sale price' }
+  }
+  if (ltvPercent > 75) {
+    return { limitPercent: 6, rule: 'Conventional 75.01–90% LTV: 6% of the sale price' }
+  }
+  return { limitPercent: 9, rule: 'Conventional at or below 75% LTV: 9% of the sale price' }
+}
+
+export type SellerContributionInput = {
+  program: ConcessionProgram
+  salePrice: number
+  loanAmount: number
+  /** Temporary buydown subsidy paid by the seller */
+  buydownSubsidy: number
+  /** Discount points paid by the seller */
+  discountPointsCost: number
+  /** Any other seller credits toward closing costs */
+  otherCredits: number
+}
+
+export type SellerContributionCheck = ConcessionLimit & {
+  ltvPercent: number
+  limitAmount: number
+  /** Contributions that count toward the limit */
+  countedContribution: number
+  /** Amount over the limit; zero when within it */
+  excess: number
+}
+
+export function checkSellerContribution({
+  program,
+  salePrice,
+  loanAmount,
+  buydownSubsidy,
+  discountPointsCost,
+  otherCredits
+}: SellerContributionInput): SellerContributionCheck {
+  const price = clampNonNegative(salePrice)
+  const ltvPercent = price > 0 ? (clampNonNegative(loanAmount) / price) * 100 : 0
+  const limit = sellerContributionLimit(program, ltvPercent)
+  const limitAmount = (price * limit.limitPercent) / 100
+
+  // VA does not count seller-paid discount points toward its concession limit.
+  const countedContribution =
+    clampNonNegative(buydownSubsidy) +
+    (program === 'va' ? 0 : clampNonNegative(discountPointsCost)) +
+    clampNonNegative(otherCredits)
+
+  return {
+    ...limit,
+    ltvPercent,
+    limitAmount,
+    countedContribution,
+    excess: Math.max(0, countedContribution - limitAmount)
+  }
+}
+
+export type ConcessionUse = 'temporary-buydown' | 'permanent-points' | 'price-reduction'
+
+export const CONCESSION_USE_LABELS: Record<ConcessionUse, string> = {
+  'temporary-buydown': 'Temporary buydown',
+  'permanent-points': 'Permanent points',
+  'price-reduction': 'Price reduction'
+}
+
+export type ConcessionComparisonInput = {
+  salePrice: number
+  loanAmount: number
+  noteRatePercent: number
+  termYears: number
+  /** Seller credit available to spend */
+  concession: number
+  /** Shape of the temporary buydown; the steps are scaled so the subsidy uses the whole credit */
+  temporarySteps: number[]
+  /** Rate reduction bought by each discount point */
+  reductionPerPoint: number
+  horizonYears: number
+}
+
+export type ConcessionOutcome = {
+  use: ConcessionUse
+  loanAmount: number
+  /** Buyer's down payment */
+  cashAtClosing: number
+  /** Rate paid in each year of the horizon */
+  ratesByYear: number[]
+  paymentsByYear: number[]
+  /** Cash at closing, payments so far and the payoff balance, at the end of each year */
+  costByYear: number[]
+  /** Part of the credit the option could not use */
+  unusedConcession: number
+}
+
+export type ConcessionComparison = {
+  outcomes: ConcessionOutcome[]
+  /** Cheapest use at the end of each year of the horizon */
+  winnerByYear: ConcessionUse[]
+}
+
+const STEP_SCALE_ITERATIONS = 60
+
+function outcomeFromPayments(
+  use: ConcessionUse,
+  loanAmount: number,
+  cashAtClosing: number,
+  noteRatePercent: number,
+  termYears: number,
+  horizonYears: number,
+  rateForYear: (year: number) => number,
+  unusedConcession: number
+): ConcessionOutcome {
+  const schedule = buildAmortizationSchedule({
+    principal: loanAmount,
+    annualRatePercent: noteRatePercent,
+    termYears
+  })
+  const ratesByYear: number[] = []
+  const paymentsByYear: number[] = []
+  const costByYear: number[] = []
+  let paid = 0
+  for (let year = 1; year <= horizonYears; year++) {
+    const ratePercent = rateForYear(year)
+    const payment =
+      year > termYears
+        ? 0
+        : calculateMonthlyPrincipalAndInterest(loanAmount, ratePercent, termYears)
+    paid += payment * 12
+    const row = schedule.rows[Math.min(year * 12, schedule.rows.length) - 1]
+    ratesByYear.push(ratePercent)
+    paymentsByYear.push(payment)
+    costByYear.push(cashAtClosing + paid + (row?.balance ?? 0))
+  }
+  return {
+    use,
+    loanAmount,
+    cashAtClosing,
+    ratesByYear,
+    paymentsByYear,
+    costByYear,
+    unusedConcession
+  }
+}
+
+/**
+ * What the same seller credit is worth to the buyer as a temporary buydown, discount points or a
+ * lower price. A price cut keeps the LTV, so it lowers both the down payment and the loan.
+ */
+export function compareConcessionUses({
+  salePrice,
+  loanAmount,
+  noteRatePercent,
+  termYears,
+  concession,
+  temporarySteps,
+  reductionPerPoint,
+  horizonYears
+}: ConcessionComparisonInput): ConcessionComparison {
+  const price = clampNonNegative(salePrice)
+  const loan = Math.min(price, clampNonNegative(loanAmount))
+  const credit = clampNonNegative(concession)
+  const noteRate = clampNonNegative(noteRatePercent)
+  const term = Math.max(1, Math.round(termYears))
+  const horizon = Math.max(1, Math.round(horizonYears))
+  const downPayment = price - loan
+
+  // Temporary buydown: scale the steps until the subsidy spends the credit, without going below 0%.
+  const largestStep = Math.max(0, ...temporarySteps.map(clampNonNegative))
+  const subsidyAt = (scale: number) =>
+    buildTemporaryBuydownSchedule({
+      loanAmount: loan,
+      noteRatePercent: noteRate,
+      termYears: term,
+      steps: temporarySteps.map(step => clampNonNegative(step) * scale)
+    }).totalSubsidy
+  let low = 0
+  let high = largestStep > 0 ? noteRate / largestStep : 0
+  if (subsidyAt(high) <= credit) low = high
+  else {
+    for (let i = 0; i < STEP_SCALE_ITERATIONS; i++) {
+      const mid = (low + high) / 2
+      if (subsidyAt(mid) <= credit) low = mid
+      else high = mid
+    }
+  }
+  const scaledSteps = temporarySteps.map(step => clampNonNegative(step) * low)
+  const temporary = outcomeFromPayments(
+    'temporary-buydown',
+    loan,
+    downPayment,
+    noteRate,
+    term,
+    horizon,
+    year => Math.max(0, noteRate - (scaledSteps[year - 1] ?? 0)),
+    credit - subsidyAt(low)
+  )
+
+  // Permanent buydown: the credit buys points at the quoted reduction per point.
+  const points = loan > 0 ? (credit / loan) * 100 : 0
+  const reducedRate = reducedRateForPoints(noteRate, points, reductionPerPoint)
+  const pointsNeededForZero =
+    clampNonNegative(reductionPerPoint) > 0 ? noteRate / clampNonNegative(reductionPerPoint) : 0
+  const permanent = outcomeFromPayments(
+    'permanent-points',
+    loan,
+    downPayment,
+    reducedRate,
+    term,
+    horizon,
+    () => reducedRate,
+    Math.max(0, ((points - pointsNeededForZero) * loan) / 100)
+  )
+
+  // Price reduction at the same LTV.
+  const reducedPrice = Math.max(0, price - credit)
+  const ltv = price > 0 ? loan / price : 0
+  const reducedLoan = reducedPrice * ltv
+  const priceReduction = outcomeFromPayments(
+    'price-reduction',
+    reducedLoan,
+    reducedPrice - reducedLoan,
+    noteRate,
+    term,
+    horizon,
+    () => noteRate,
+    credit - (price - reducedPrice)
+  )
+
+  const outcomes = [temporary, permanent, priceReduction]
+  const winnerByYear = Array.from(
+    { length: horizon },
+    (_, i) =>
+      outcomes.reduce((best, outcome) =>
+        outcome.costByYear[i] < best.costByYear[i] ? outcome : best
+      ).use
+  )
+  return { outcomes, winnerByYear }
+}
+
+
@@ -0,0 +1,294 @@
+import { calculateMonthlyPrincipalAndInterest, clampNonNegative } from './amortization'
+
+// Cash-out refinance limits by loan program. Agency figures are the standard one-unit limits;
+// lenders often layer stricter overlays, which the retained equity input can model.
+
+export type CashOutProgram =
+  | 'conventional-primary'
+  | 'conventional-second-home'
+  | 'conventional-investment'
+  | 'fha'
+  | 'va'
+  | 'jumbo'
+
+export type CashOutProgramRules = {
+  label: string
+  maxLtvPercent: number
+  /** Equity that must stay in the home after the refinance, as a percent of its value */
+  minRetainedEquityPercent: number
+  /** Largest cash-out amount allowed, null for no dollar cap */
+  maxCashOut: number | null
+  /** Terms offered, in years, ascending */
+  termYears: number[]
+}
+
+export const CASH_OUT_PROGRAMS: Record<CashOutProgram, CashOutProgramRules> = {
+  'conventional-primary': {
+    label: 'Conventional primary residence',
+    maxLtvPercent: 80,
+    minRetainedEquityPercent: 20,
+    maxCashOut: null,
+    termYears: [10, 15, 20, 25, 30]
+  },
+  'conventional-second-home': {
+    label: 'Conventional second home',
+    maxLtvPercent: 75,
+    minRetainedEquityPercent: 25,
+    maxCashOut: null,
+    termYears: [10, 15, 20, 25, 30]
+  },
+  'conventional-investment': {
+    label: 'Conventional investment property',
+    maxLtvPercent: 75,
+    minRetainedEquityPercent: 25,
+    maxCashOut: null,
+    termYears: [10, 15, 20, 25, 30]
+  },
+  fha: {
+    label: 'FHA',
+    maxLtvPercent: 80,
+    minRetainedEquityPercent: 20,
+    maxCashOut: null,
+    termYears: [15, 20, 25, 30]
+  },
+  // VA allows 100% LTV; most lenders keep 10% equity in the home, so that is the default.
+  va: {
+    label: 'VA',
+    maxLtvPercent: 100,
+    minRetainedEquityPercent: 10,
+    maxCashOut: null,
+    termYears: [15, 20, 25, 30]
+  },
+  jumbo: {
+    label: 'Jumbo',
+    maxLtvPercent: 75,
+    minRetainedEquityPercent: 25,
+    maxCashOut: 500_000,
+    termYears: [15, 30]
+  }
+}
+
+export type CashOutLimitInput = {
+  program: CashOutProgram
+  homeValue: number
+  existingBalance: number
+  desiredCashOut: number
+  /** Overrides the program's retained equity; never below what its max LTV implies */
+  retainedEquityPercent?: number
+}
+
+export type CashOutLimit = {
+  /** Max LTV after the retained equity requirement */
+  maxLtvPercent: number
+  maxLoan: number
+  maxCashOut: number
+  cashOut: number
+  loanAmount: number
+  ltvPercent: number
+  /** True when the desired cash out was reduced to the limit */
+  wasCapped: boolean
+  /** The rule that sets the limit, for messaging */
+  rule: string
+}
+
+export function calculateCashOutLimit({
+  program,
+  homeValue,
+  existingBalance,
+  desiredCashOut,
+  retainedEquityPercent
+}: CashOutLimitInput): CashOutLimit {
+  const rules = CASH_OUT_PROGRAMS[program]
+  const value = clampNonNegative(homeValue)
+  const existing = clampNonNegative(existingBalance)
+  const desired = clampNonNegative(desiredCashOut)
+  const retained = Math.min(
+    100,
+    Math.max(
+      100 - rules.maxLtvPercent,
+      clampNonNegative(retainedEquityPercent ?? rules.minRetainedEquityPercent)
+    )
+  )
+
+  const maxLoan = (value * (100 - retained)) / 100
+  let maxCashOut = Math.max(0, maxLoan - existing)
+  let rule =
+    retained <= 100 - rules.maxLtvPercent
+      ? `${rules.label}: ${rules.maxLtvPercent}% max LTV`
+      : `${rules.label}: ${retained}% of the home's value must remain as equity`
+  if (rules.maxCashOut !== null && rules.maxCashOut < maxCashOut) {
+    maxCashOut = rules.maxCashOut
+    rule = `${rules.label}: cash out capped at $${rules.maxCashOut.toLocaleString('en-US')}`
+  }
+
+  const cashOut = Math.min(desired, maxCashOut)
+  const loanAmount = existing + cashOut
+  return {
+    maxLtvPercent: 100 - retained,
+    maxLoan,
+    maxCashOut,
+    cashOut,
+    loanAmount,
+    ltvPercent: value > 0 ? (loanAmount / value) * 100 : 0,
+    wasCapped: desired > maxCashOut,
+    rule
+  }
+}
+
+export type CashOutOption = 'cash-out-refi' | 'home-equity-loan' | 'heloc'
+
+export const CASH_OUT_OPTION_LABELS: Record<CashOutOption, string> = {
+  'cash-out-refi': 'Cash-out refinance',
+  'home-equity-loan': 'Home equity loan',
+  heloc: 'HELOC'
+}
+
+/** Combined LTV most lenders allow on a home equity loan or HELOC. */
+export const SECOND_LIEN_MAX_CLTV_PERCENT = 85
+
+export type CashOutComparisonInput = {
+  homeValue: number
+  existingBalance: number
+  existingRatePercent: number
+  existingRemainingYears: number
+  cashNeeded: number
+  refiRatePercent: number
+  refiTermYears: number
+  homeEquityRatePercent: number
+  homeEquityTermYears: number
+  /** HELOC rates float; this is the rate assumed for the whole horizon */
+  helocRatePercent: number
+  /** Interest-only years, with the full line drawn at closing */
+  helocDrawYears: number
+  helocRepaymentYears: number
+  horizonYears: number
+}
+
+export type CashOutOptionResult = {
+  option: CashOutOption
+  /** Interest rate averaged over the balances owed at closing */
+  blendedRatePercent: number
+  firstLienPayment: number
+  secondLienPayment: number
+  /** First month's total payment */
+  monthlyPayment: number
+  /** Total payment once a HELOC's draw period ends, null when it doesn't change */
+  monthlyPaymentAfterDraw: number | null
+  totalInterest: number
+  /** Principal still owed on all liens at the end of the horizon */
+  balanceAtHorizon: number
+  combinedLtvPercent: number
+}
+
+type LienProjection = {
+  firstPayment: number
+  paymentAfterInterestOnly: number
+  interest: number
+  balance: number
+}
+
+/** Pays a lien for `months`, interest only for the first `interestOnlyMonths`. */
+function projectLien(
+  principal: number,
+  ratePercent: number,
+  amortizationYears: number,
+  months: number,
+  interestOnlyMonths = 0
+): LienProjection {
+  const monthlyRate = clampNonNegative(ratePercent) / 100 / 12
+  const amortizingPayment = calculateMonthlyPrincipalAndInterest(
+    principal,
+    ratePercent,
+    Math.max(1, amortizationYears)
+  )
+  const firstPayment = interestOnlyMonths > 0 ? principal * monthlyRate : amortizingPayment
+
+  let balance = principal
+  let interest = 0
+  for (let month = 1; month <= months && balance > 0; month++) {
+    const monthInterest = balance * monthlyRate
+    interest += monthInterest
+    if (month > interestOnlyMonths) {
+      balance = Math.max(0, balance - Math.min(balance, amortizingPayment - monthInterest))
+    }
+  }
+  return { firstPayment, paymentAfterInterestOnly: amortizingPayment, interest, balance }
+}
+
+/**
+ * Cash-out refinance against keeping the first mortgage and borrowing the cash on a second lien.
+ * Closing costs are left out so the options differ only by rate and structure.
+ */
+export function compareCashOutOptions({
+  homeValue,
+  existingBalance,
+  existingRatePercent,
+  existingRemainingYears,
+  cashNeeded,
+  refiRatePercent,
+  refiTermYears,
+  homeEquityRatePercent,
+  homeEquityTermYears,
+  helocRatePercent,
+  helocDrawYears,
+  helocRepaymentYears,
+  horizonYears
+}: CashOutComparisonInput): CashOutOptionResult[] {
+  const value = clampNonNegative(homeValue)
+  const existing = clampNonNegative(existingBalance)
+  const cash = clampNonNegative(cashNeeded)
+  const months = Math.max(1, Math.round(horizonYears)) * 12
+  const total = existing + cash
+  const combinedLtvPercent = value > 0 ? (total / value) * 100 : 0
+  const blend = (secondRatePercent: number) =>
+    total > 0
+      ? (existing * clampNonNegative(existingRatePercent) +
+          cash * clampNonNegative(secondRatePercent)) /
+        total
+      : 0
+
+  const refi = projectLien(total, refiRatePercent, refiTermYears, months)
+  const first = projectLien(existing, existingRatePercent, existingRemainingYears, months)
+  const homeEquity = projectLien(cash, homeEquityRatePercent, homeEquityTermYears, months)
+  const drawMonths = Math.round(clampNonNegative(helocDrawYears) * 12)
+  const heloc = projectLien(cash, helocRatePercent, helocRepaymentYears, months, drawMonths)
+
+  return [
+    {
+      option: 'cash-out-refi',
+      blendedRatePercent: clampNonNegative(refiRatePercent),
+      firstLienPayment: refi.firstPayment,
+      secondLienPayment: 0,
+      monthlyPayment: refi.firstPayment,
+      monthlyPaymentAfterDraw: null,
+      totalInterest: refi.interest,
+      balanceAtHorizon: refi.balance,
+      combinedLtvPercent
+    },
+    {
+      option: 'home-equity-loan',
+      blendedRatePercent: blend(homeEquityRatePercent),
+      firstLienPayment: first.firstPayment,
+      secondLienPayment: homeEquity.firstPayment,
+      monthlyPayment: first.firstPayment + homeEquity.firstPayment,
+      monthlyPaymentAfterDraw: null,
+      totalInterest: first.interest + homeEquity.interest,
+      balanceAtHorizon: first.balance + homeEquity.balance,
+      combinedLtvPercent
+    },
+    {
+      option: 'heloc',
+      blendedRatePercent: blend(helocRatePercent),
+      firstLienPayment: first.firstPayment,
+      secondLienPayment: heloc.firstPayment,
+      monthlyPayment: first.firstPayment + heloc.firstPayment,
+      monthlyPaymentAfterDraw:
+        drawMonths > 0 ? first.firstPayment + heloc.paymentAfterInterestOnly : null,
+      totalInterest: first.interest + heloc.interest,
+      balanceAtHorizon: first.balance + heloc.balance,
+      combinedLtvPercent
+    }
+  ]
+}
+
+
@@ -0,0 +1,178 @@
+import { clampNonNegative } from './amortization'
+
+// Itemized closing costs grouped like page 2 of the CFPB Loan Estimate. Sections A–C are loan
+// costs; E–G are taxes, prepaids and the initial escrow deposit, which pre-fund the borrower's own
+// bills rather than pay for the loan.
+
+export type ClosingCostItems = {
+  /** Lender origination fee, as a percent of the loan amount */
+  originationPercent: number
+  /** Discount points; one point is 1% of the loan amount */
+  discountPoints: number
+  appraisalFee: number
+  /** Lender's title policy, settlement and other title services */
+  titleFees: number
+  recordingFees: number
+  /** Transfer taxes, as a percent of the sale price */
+  transferTaxPercent: number
+  /** Days of interest collected from closing to the end of the month */
+  prepaidInterestDays: number
+  /** Months of homeowners insurance premium paid at closing */
+  insurancePremiumMonths: number
+  taxReserveMonths: number
+  insuranceReserveMonths: number
+}
+
+export const DEFAULT_PURCHASE_CLOSING_COSTS: ClosingCostItems = {
+  originationPercent: 1,
+  discountPoints: 0,
+  appraisalFee: 650,
+  titleFees: 1_800,
+  recordingFees: 150,
+  transferTaxPercent: 0.2,
+  prepaidInterestDays: 15,
+  insurancePremiumMonths: 12,
+  taxReserveMonths: 3,
+  insuranceReserveMonths: 2
+}
+
+/** Refinances carry no transfer tax and keep the existing insurance policy in force. */
+export const DEFAULT_REFINANCE_CLOSING_COSTS: ClosingCostItems = {
+  originationPercent: 1,
+  discountPoints: 0,
+  appraisalFee: 650,
+  titleFees: 1_400,
+  recordingFees: 150,
+  transferTaxPercent: 0,
+  prepaidInterestDays: 15,
+  insurancePremiumMonths: 0,
+  taxReserveMonths: 3,
+  insuranceReserveMonths: 2
+}
+
+export type ClosingCostContext = {
+  loanAmount: number
+  /** Sale price for transfer taxes; zero on a refinance */
+  salePrice: number
+  annualRatePercent: number
+  annualPropertyTax: number
+  annualInsurance: number
+}
+
+export type ClosingCostSectionKey = 'A' | 'B' | 'C' | 'E' | 'F' | 'G'
+
+export type ClosingCostLine = {
+  label: string
+  amount: number
+}
+
+export type ClosingCostSection = {
+  key: ClosingCostSectionKey
+  label: string
+  lines: ClosingCostLine[]
+  total: number
+}
+
+export type ClosingCostEstimate = {
+  sections: ClosingCostSection[]
+  /** D: sections A + B + C */
+  loanCosts: number
+  /** I: sections E + F + G */
+  otherCosts: number
+  /** J: total closing costs */
+  total: number
+  /** Loan costs plus government fees; what the loan itself costs, excluding prepaids and escrow */
+  costOfFinancing: number
+  originationFee: number
+  pointsCost: number
+  prepaidInterest: number
+  /** Origination, points and prepaid interest: the closing costs that count toward the APR */
+  prepaidFinanceCharges: number
+}
+
+function section(
+  key: ClosingCostSectionKey,
+  label: string,
+  lines: ClosingCostLine[]
+): ClosingCostSection {
+  return { key, label, lines, total: lines.reduce((sum, line) => sum + line.amount, 0) }
+}
+
+export function estimateClosingCosts(
+  items: ClosingCostItems,
+  context: ClosingCostContext
+): ClosingCostEstimate {
+  const loan = clampNonNegative(context.loanAmount)
+  const monthlyTax = clampNonNegative(context.annualPropertyTax) / 12
+  const monthlyInsurance = clampNonNegative(context.annualInsurance) / 12
+
+  const originationFee = (loan * clampNonNegative(items.originationPercent)) / 100
+  const pointsCost = (loan * clampNonNegative(items.discountPoints)) / 100
+  // Per-diem interest on a 365-day year, as most lenders disclose it.
+  const prepaidInterest =
+    ((loan * clampNonNegative(context.annualRatePercent)) / 100 / 365) *
+    clampNonNegative(items.prepaidInterestDays)
+
+  const sections = [
+    section('A', 'Origination Charges', [
+      {
+        label: `Origination fee (${clampNonNegative(items.originationPercent)}%)`,
+        amount: originationFee
+      },
+      { label: `Discount points (${clampNonNegative(items.discountPoints)})`, amount: pointsCost }
+    ]),
+    section('B', 'Services You Cannot Shop For', [
+      { label: 'Appraisal', amount: clampNonNegative(items.appraisalFee) }
+    ]),
+    section('C', 'Services You Can Shop For', [
+      { label: 'Title and settlement', amount: clampNonNegative(items.titleFees) }
+    ]),
+    section('E', 'Taxes and Other Government Fees', [
+      { label: 'Recording fees', amount: clampNonNegative(items.recordingFees) },
+      {
+        label: `Transfer taxes (${clampNonNegative(items.transferTaxPercent)}%)`,
+        amount:
+          (clampNonNegative(context.salePrice) * clampNonNegative(items.transferTaxPercent)) / 100
+      }
+    ]),
+    section('F', 'Prepaids', [
+      {
+        label: `Homeowners insurance (${clampNonNegative(items.insurancePremiumMonths)} mo)`,
+        amount: monthlyInsurance * clampNonNegative(items.insurancePremiumMonths)
+      },
+      {
+        label: `Prepaid interest (${clampNonNegative(items.prepaidInterestDays)} days)`,
+        amount: prepaidInterest
+      }
+    ]),
+    section('G', 'Initial Escrow Payment at Closing', [
+      {
+        label: `Property taxes (${clampNonNegative(items.taxReserveMonths)} mo)`,
+        amount: monthlyTax * clampNonNegative(items.taxReserveMonths)
+      },
+      {
+        label: `Homeowners insurance (${clampNonNegative(items.insuranceReserveMonths)} mo)`,
+        amount: monthlyInsurance * clampNonNegative(items.insuranceReserveMonths)
+      }
+    ])
+  ]
+
+  const totalOf = (...keys: ClosingCostSectionKey[]) =>
+    sections.filter(s => keys.includes(s.key)).reduce((sum, s) => sum + s.total, 0)
+  const loanCosts = totalOf('A', 'B', 'C')
+  const otherCosts = totalOf('E', 'F', 'G')
+
+  return {
+    sections,
+    loanCosts,
+    otherCosts,
+    total: loanCosts + otherCosts,
+    costOfFinancing: loanCosts + totalOf('E'),
+    originationFee,
+    pointsCost,
+    prepaidInterest,
+    prepaidFinanceCharges: originationFee + pointsCost + prepaidInterest
+  }
+}
+
+
@@ -0,0 +1,120 @@
+import { type AmortizationSchedule, clampNonNegative } from './amortization'
+
+// Borrower-paid monthly PMI on conventional loans. Rates are annual percentages of the original
+// loan amount and approximate a typical MI rate card; actual quotes vary by insurer and coverage.
+
+/** Minimum credit score of each column in `PMI_RATE_TABLE`, best band first. */
+export const PMI_CREDIT_SCORE_BANDS = [760, 740, 720, 700, 680, 660, 640, 620] as const
+
+type PmiLtvBand = {
+  /** Upper bound (inclusive) of the band, as an LTV percentage */
+  maxLtvPercent: number
+  ratesByScore: readonly number[]
+}
+
+export const PMI_RATE_TABLE: readonly PmiLtvBand[] = [
+  { maxLtvPercent: 85, ratesByScore: [0.19, 0.2, 0.23, 0.26, 0.3, 0.42, 0.44, 0.5] },
+  { maxLtvPercent: 90, ratesByScore: [0.28, 0.38, 0.46, 0.55, 0.65, 0.9, 0.96, 1.06] },
+  { maxLtvPercent: 95, ratesByScore: [0.38, 0.53, 0.66, 0.78, 0.96, 1.28, 1.36, 1.5] },
+  { maxLtvPercent: 97, ratesByScore: [0.58, 0.7, 0.87, 0.99, 1.21, 1.54, 1.66, 1.86] }
+]
+
+/** PMI is required above this LTV; the borrower may request removal once the balance reaches it. */
+export const PMI_REQUEST_REMOVAL_LTV = 80
+/** Servicers must drop PMI automatically once the scheduled balance reaches this LTV. */
+export const PMI_AUTOMATIC_TERMINATION_LTV = 78
+
+export function lookupPmiRatePercent(ltvPercent: number, creditScore: number) {
+  const ltv = clampNonNegative(ltvPercent)
+  if (ltv <= PMI_REQUEST_REMOVAL_LTV) return 0
+
+  // LTVs above the last band are priced like the highest band rather than rejected outright.
+  const band =
+    PMI_RATE_TABLE.find(b => ltv <= b.maxLtvPercent) ?? PMI_RATE_TABLE[PMI_RATE_TABLE.length - 1]
+  const scoreIndex = PMI_CREDIT_SCORE_BANDS.findIndex(min => creditScore >= min)
+  const column = scoreIndex === -1 ? PMI_CREDIT_SCORE_BANDS.length - 1 : scoreIndex
+  return band.ratesByScore[column]
+}
+
+export type PmiInput = {
+  loanAmount: number
+  /** Original property value (purchase price or appraised value, whichever is lower) */
+  propertyValue: number
+  creditScore: number
+  /** Schedule the borrower actually follows, including any extra payments */
+  schedule: AmortizationSchedule
+  /** Original amortization schedule, without extra payments; defaults to `schedule` */
+  scheduledSchedule?: AmortizationSchedule
+}
+
+export type PmiResult = {
+  ltvPercent: number
+  annualRatePercent: number
+  monthlyPremium: number
+  /** Payment that brings the actual balance to 80% of original value, when removal can be requested */
+  requestRemovalMonth: number | null
+  /**
+   * Payment after which PMI ends automatically: the scheduled balance reaching 78% of original value,
+   * or the midpoint of the loan term, whichever comes first.
+   */
+  automaticTerminationMonth: number | null
+  /** Premiums paid if PMI runs until automatic termination */
+  totalPremiums: number
+}
+
+function firstMonthAtOrBelow(schedule: AmortizationSchedule, balanceLimit: number) {
+  return schedule.rows.find(row => row.balance <= balanceLimit)?.month ?? null
+}
+
+export function calculatePmi({
+  loanAmount,
+  propertyValue,
+  creditScore,
+  schedule,
+  scheduledSchedule = schedule
+}: PmiInput): PmiResult {
+  const loan = clampNonNegative(loanAmount)
+  const value = clampNonNegative(propertyValue)
+  const ltvPercent = value > 0 ? (loan / value) * 100 : 0
+  const annualRatePercent = lookupPmiRatePercent(ltvPercent, creditScore)
+
+  if (annualRatePercent === 0 || loan === 0) {
+    return {
+      ltvPercent,
+      annualRatePercent: 0,
+      monthlyPremium: 0,
+      requestRemovalMonth: null,
+      automaticTerminationMonth: null,
+      totalPremiums: 0
+    }
+  }
+
+  const monthlyPremium = (loan * annualRatePercent) / 100 / 12
+  const requestRemovalMonth = firstMonthAtOrBelow(
+    schedule,
+    (value * PMI_REQUEST_REMOVAL_LTV) / 100
+  )
+
+  const scheduledTermination = firstMonthAtOrBelow(
+    scheduledSchedule,
+    (value * PMI_AUTOMATIC_TERMINATION_LTV) / 100
+  )
+  const midpoint = Math.ceil(scheduledSchedule.rows.length / 2)
+  const automaticTerminationMonth = Math.min(
+    scheduledTermination ?? midpoint,
+    midpoint,
+    // Paying the loan off early ends PMI along with it.
+    schedule.payoffMonth
+  )
+
+  return {
+    ltvPercent,
+    annualRatePercent,
+    monthlyPremium,
+    requestRemovalMonth,
+    automaticTerminationMonth,
+    totalPremiums: monthlyPremium * automaticTerminationMonth
+  }
+}
+
+
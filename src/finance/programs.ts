@@ -0,0 +1,223 @@
+import { type AmortizationSchedule, clampNonNegative, summarizeByYear } from './amortization'
+
+// Government and conventional purchase program rules. Figures follow current FHA, VA and USDA
+// published schedules; they are estimates for comparison, not a pricing engine.
+
+export type LoanProgram = 'conventional' | 'fha' | 'va' | 'usda'
+
+export const LOAN_PROGRAMS: { key: LoanProgram; label: string }[] = [
+  { key: 'conventional', label: 'Conventional' },
+  { key: 'fha', label: 'FHA' },
+  { key: 'va', label: 'VA' },
+  { key: 'usda', label: 'USDA' }
+]
+
+/** Minimum down payment for each program, as a percent of the purchase price. */
+export const MIN_DOWN_PAYMENT_PERCENT: Record<LoanProgram, number> = {
+  conventional: 3,
+  fha: 3.5,
+  va: 0,
+  usda: 0
+}
+
+export const FHA_UPFRONT_MIP_PERCENT = 1.75
+/** Base loan amounts above this pay the higher annual MIP tier. */
+export const FHA_HIGH_BALANCE_THRESHOLD = 726_200
+/** FHA annual MIP ends after 11 years when the original LTV is 90% or less. */
+export const FHA_MIP_LIMITED_YEARS = 11
+
+export const USDA_UPFRONT_GUARANTEE_PERCENT = 1
+export const USDA_ANNUAL_FEE_PERCENT = 0.35
+
+export type VaUsage = 'first' | 'subsequent'
+
+export function fhaAnnualMipPercent(baseLoanAmount: number, ltvPercent: number, termYears: number) {
+  const highBalance = baseLoanAmount > FHA_HIGH_BALANCE_THRESHOLD
+
+  if (termYears <= 15) {
+    if (highBalance) {
+      if (ltvPercent <= 78) return 0.15
+      return ltvPercent <= 90 ? 0.4 : 0.65
+    }
+    return ltvPercent <= 90 ? 0.15 : 0.4
+  }
+
+  if (highBalance) return ltvPercent <= 95 ? 0.7 : 0.75
+  return ltvPercent <= 95 ? 0.5 : 0.55
+}
+
+export function vaFundingFeePercent(
+  downPaymentPercent: number,
+  usage: VaUsage,
+  disabilityExempt: boolean
+) {
+  if (disabilityExempt) return 0
+  if (downPaymentPercent >= 10) return 1.25
+  if (downPaymentPercent >= 5) return 1.5
+  return usage === 'first' ? 2.15 : 3.3
+}
+
+export type ProgramFinancingInput = {
+  program: LoanProgram
+  homePrice: number
+  downPayment: number
+  termYears: number
+  vaUsage?: VaUsage
+  vaDisabilityExempt?: boolean
+}
+
+export type ProgramFinancing = {
+  program: LoanProgram
+  /** Down payment after applying the program minimum */
+  downPayment: number
+  minDownPayment: number
+  /** True when the entered down payment was raised to the program minimum */
+  downPaymentRaised: boolean
+  /** Price minus down payment, before any financed fee */
+  baseLoanAmount: number
+  /** LTV of the base loan, which is what program pricing keys off */
+  baseLtvPercent: number
+  upfrontFeeLabel: string | null
+  upfrontFeePercent: number
+  /** Upfront fee, financed into the loan */
+  upfrontFee: number
+  /** Note amount the borrower repays (base loan plus financed fee) */
+  loanAmount: number
+  /** Name of the program's monthly insurance or guarantee fee, null for none (VA) */
+  annualInsuranceLabel: string | null
+  /** Conventional PMI is priced separately by credit score; see `calculatePmi`. */
+  annualInsurancePercent: number
+  /** Months the annual insurance is charged; null for the life of the loan */
+  annualInsuranceMonths: number | null
+}
+
+export function calculateProgramFinancing({
+  program,
+  homePrice,
+  downPayment,
+  termYears,
+  vaUsage = 'first',
+  vaDisabilityExempt = false
+}: ProgramFinancingInput): ProgramFinancing {
+  const price = clampNonNegative(homePrice)
+  const minDownPayment = (price * MIN_DOWN_PAYMENT_PERCENT[program]) / 100
+  const entered = Math.min(price, clampNonNegative(downPayment))
+  const effectiveDown = Math.max(entered, minDownPayment)
+  const baseLoanAmount = Math.max(0, price - effectiveDown)
+  const baseLtvPercent = price > 0 ? (baseLoanAmount / price) * 100 : 0
+  const downPaymentPercent = price > 0 ? (effectiveDown / price) * 100 : 0
+
+  const common = {
+    program,
+    downPayment: effectiveDown,
+    minDownPayment,
+    downPaymentRaised: effectiveDown > entered,
+    baseLoanAmount,
+    baseLtvPercent
+  }
+
+  switch (program) {
+    case 'fha': {
+      const upfrontFee = (baseLoanAmount * FHA_UPFRONT_MIP_PERCENT) / 100
+      return {
+        ...common,
+        upfrontFeeLabel: 'Upfront MIP',
+        upfrontFeePercent: FHA_UPFRONT_MIP_PERCENT,
+        upfrontFee,
+        loanAmount: baseLoanAmount + upfrontFee,
+        annualInsuranceLabel: 'MIP',
+        annualInsurancePercent: fhaAnnualMipPercent(baseLoanAmount, baseLtvPercent, termYears),
+        annualInsuranceMonths: baseLtvPercent <= 90 ? FHA_MIP_LIMITED_YEARS * 12 : null
+      }
+    }
+    case 'va': {
+      const feePercent = vaFundingFeePercent(downPaymentPercent, vaUsage, vaDisabilityExempt)
+      const upfrontFee = (baseLoanAmount * feePercent) / 100
+      return {
+        ...common,
+        upfrontFeeLabel: 'VA funding fee',
+        upfrontFeePercent: feePercent,
+        upfrontFee,
+        loanAmount: baseLoanAmount + upfrontFee,
+        annualInsuranceLabel: null,
+        annualInsurancePercent: 0,
+        annualInsuranceMonths: null
+      }
+    }
+    case 'usda': {
+      const upfrontFee = (baseLoanAmount * USDA_UPFRONT_GUARANTEE_PERCENT) / 100
+      return {
+        ...common,
+        upfrontFeeLabel: 'Guarantee fee',
+        upfrontFeePercent: USDA_UPFRONT_GUARANTEE_PERCENT,
+        upfrontFee,
+        loanAmount: baseLoanAmount + upfrontFee,
+        annualInsuranceLabel: 'USDA annual fee',
+        annualInsurancePercent: USDA_ANNUAL_FEE_PERCENT,
+        annualInsuranceMonths: null
+      }
+    }
+    default:
+      return {
+        ...common,
+        upfrontFeeLabel: null,
+        upfrontFeePercent: 0,
+        upfrontFee: 0,
+        loanAmount: baseLoanAmount,
+        annualInsuranceLabel: 'PMI',
+        annualInsurancePercent: 0,
+        annualInsuranceMonths: null
+      }
+  }
+}
+
+export type AnnualInsuranceResult = {
+  /** Premium charged with each payment in the first loan year */
+  monthlyPremium: number
+  /** Number of payments that include the premium */
+  premiumMonths: number
+  totalPremiums: number
+  /** Premium per payment for each loan year (0 once it has ended) */
+  monthlyPremiumByYear: number[]
+}
+
+/**
+ * FHA MIP and the USDA annual fee are re-priced each loan year on that year's average scheduled
+ * balance, so the premium steps down as the loan amortizes.
+ */
+export function calculateAnnualInsurance(
+  financing: ProgramFinancing,
+  schedule: AmortizationSchedule
+): AnnualInsuranceResult {
+  const rate = financing.annualInsurancePercent / 100
+  if (rate === 0 || schedule.rows.length === 0) {
+    return { monthlyPremium: 0, premiumMonths: 0, totalPremiums: 0, monthlyPremiumByYear: [] }
+  }
+
+  const premiumMonths = Math.min(
+    schedule.payoffMonth,
+    financing.annualInsuranceMonths ?? schedule.payoffMonth
+  )
+
+  let openingBalance = schedule.principal
+  let totalPremiums = 0
+  const monthlyPremiumByYear = summarizeByYear(schedule.rows).map(year => {
+    const averageBalance = (openingBalance + year.balance) / 2
+    openingBalance = year.balance
+
+    const firstMonth = (year.year - 1) * 12 + 1
+    const monthsCharged = Math.max(0, Math.min(12, premiumMonths - firstMonth + 1))
+    const monthly = monthsCharged > 0 ? (averageBalance * rate) / 12 : 0
+    totalPremiums += monthly * monthsCharged
+    return monthly
+  })
+
+  return {
+    monthlyPremium: monthlyPremiumByYear[0] ?? 0,
+    premiumMonths,
+    totalPremiums,
+    monthlyPremiumByYear
+  }
+}
+
+
@@ -0,0 +1,284 @@
+import {
+  type AmortizationSchedule,
+  buildAmortizationSchedule,
+  clampNonNegative
+} from './amortization'
+
+// Refinance comparisons. The existing loan is rebuilt from its original terms so the current
+// balance, payment and remaining interest reflect where the borrower actually is in the schedule.
+
+/**
+ * Payments due before the month of `asOf`, for a loan whose first payment fell in
+ * `firstPaymentMonth` ('YYYY-MM'). Returns null for an unparseable month.
+ */
+export function paymentsMadeSince(firstPaymentMonth: string, asOf: Date = new Date()) {
+  const match = /^(\d{4})-(\d{2})$/.exec(firstPaymentMonth)
+  if (!match) return null
+  const elapsed =
+    (asOf.getFullYear() - Number(match[1])) * 12 + (asOf.getMonth() + 1 - Number(match[2]))
+  return Math.max(0, elapsed)
+}
+
+export type CurrentLoanInput = {
+  originalAmount: number
+  annualRatePercent: number
+  termYears: number
+  paymentsMade: number
+}
+
+export type CurrentLoan = {
+  schedule: AmortizationSchedule
+  monthlyPayment: number
+  /** Payments already made, capped at the term */
+  paymentsMade: number
+  balance: number
+  remainingMonths: number
+  /** Interest still to be paid if the loan is kept to payoff */
+  remainingInterest: number
+}
+
+export function analyzeCurrentLoan({
+  originalAmount,
+  annualRatePercent,
+  termYears,
+  paymentsMade
+}: CurrentLoanInput): CurrentLoan {
+  const schedule = buildAmortizationSchedule({
+    principal: originalAmount,
+    annualRatePercent,
+    termYears
+  })
+  const made = Math.min(Math.round(clampNonNegative(paymentsMade)), schedule.payoffMonth)
+  const lastPaid = made > 0 ? schedule.rows[made - 1] : null
+
+  return {
+    schedule,
+    monthlyPayment: schedule.monthlyPayment,
+    paymentsMade: made,
+    balance: lastPaid ? lastPaid.balance : schedule.principal,
+    remainingMonths: schedule.payoffMonth - made,
+    remainingInterest: schedule.totalInterest - (lastPaid?.cumulativeInterest ?? 0)
+  }
+}
+
+export type RefinanceHorizonInput = {
+  current: CurrentLoan
+  newSchedule: AmortizationSchedule
+  /** Costs paid in cash at closing; costs rolled into the new loan show up in its balance instead */
+  upfrontCosts: number
+  horizonMonths: number
+  /** Annual rate used to discount future savings to today */
+  discountRatePercent: number
+}
+
+export type RefinanceHorizonPoint = {
+  month: number
+  /** Current payment minus new payment, summed through this month (undiscounted) */
+  cumulativePaymentSavings: number
+  /** Current loan balance minus new loan balance after this month's payment */
+  balanceDifference: number
+  /** Present value of refinancing if the home is sold (or the loan paid off) after this month */
+  netBenefit: number
+}
+
+export type RefinanceHorizon = {
+  points: RefinanceHorizonPoint[]
+  /** First month the discounted net benefit turns positive and stays positive through the horizon */
+  breakEvenMonth: number | null
+  netBenefitAtHorizon: number
+}
+
+/**
+ * Net present benefit of refinancing at every month of the horizon: discounted payment savings,
+ * plus the discounted difference in payoff balance at that month, minus upfront costs.
+ */
+export function analyzeRefinanceHorizon({
+  current,
+  newSchedule,
+  upfrontCosts,
+  horizonMonths,
+  discountRatePercent
+}: RefinanceHorizonInput): RefinanceHorizon {
+  const months = Math.round(clampNonNegative(horizonMonths))
+  const monthlyDiscount = clampNonNegative(discountRatePercent) / 100 / 12
+  const costs = clampNonNegative(upfrontCosts)
+
+  const points: RefinanceHorizonPoint[] = []
+  let discountedSavings = 0
+  let cumulativePaymentSavings = 0
+  let discount = 1
+
+  for (let month = 1; month <= months; month++) {
+    discount /= 1 + monthlyDiscount
+    const currentRow = current.schedule.rows[current.paymentsMade + month - 1]
+    const newRow = newSchedule.rows[month - 1]
+
+    const savings = (currentRow?.payment ?? 0) - (newRow?.payment ?? 0)
+    cumulativePaymentSavings += savings
+    discountedSavings += savings * discount
+
+    const balanceDifference = (currentRow?.balance ?? 0) - (newRow?.balance ?? 0)
+    points.push({
+      month,
+      cumulativePaymentSavings,
+      balanceDifference,
+      netBenefit: discountedSavings + balanceDifference * discount - costs
+    })
+  }
+
+  let breakEvenMonth: number | null = null
+  for (let i = points.length - 1; i >= 0 && points[i].netBenefit >= 0; i--) {
+    breakEvenMonth = points[i].month
+  }
+
+  return {
+    points,
+    breakEvenMonth,
+    netBenefitAtHorizon: points.length > 0 ? points[points.length - 1].netBenefit : -costs
+  }
+}
+
+export type ClosingCostOption = 'cash' | 'roll-in' | 'lender-credit'
+
+export const CLOSING_COST_OPTIONS: { key: ClosingCostOption; label: string }[] = [
+  { key: 'cash', label: 'Pay costs in cash' },
+  { key: 'roll-in', label: 'Roll costs into loan' },
+  { key: 'lender-credit', label: 'No-cost (lender credit)' }
+]
+
+export type RefinanceOptionInput = {
+  current: CurrentLoan
+  newRatePercent: number
+  termYears: number
+  /** Loan costs the option has to cover; prepaids and escrow are due in cash regardless */
+  financingCosts: number
+  /** Rate increase that buys a lender credit equal to `financingCosts` */
+  lenderCreditRatePremium: number
+  horizonMonths: number
+  discountRatePercent: number
+}
+
+export type RefinanceOption = {
+  option: ClosingCostOption
+  ratePercent: number
+  loanAmount: number
+  schedule: AmortizationSchedule
+  monthlyPayment: number
+  /** Loan costs paid out of pocket at closing */
+  upfrontCosts: number
+  /** Loan costs added to the new balance */
+  financedCosts: number
+  lenderCredit: number
+  horizon: RefinanceHorizon
+}
+
+export function buildRefinanceOption(
+  option: ClosingCostOption,
+  input: RefinanceOptionInput
+): RefinanceOption {
+  const costs = clampNonNegative(input.financingCosts)
+  const financedCosts = option === 'roll-in' ? costs : 0
+  const lenderCredit = option === 'lender-credit' ? costs : 0
+  const upfrontCosts = option === 'cash' ? costs : 0
+  const ratePercent =
+    clampNonNegative(input.newRatePercent) +
+    (option === 'lender-credit' ? clampNonNegative(input.lenderCreditRatePremium) : 0)
+  const loanAmount = input.current.balance + financedCosts
+
+  const schedule = buildAmortizationSchedule({
+    principal: loanAmount,
+    annualRatePercent: ratePercent,
+    termYears: input.termYears
+  })
+
+  return {
+    option,
+    ratePercent,
+    loanAmount,
+    schedule,
+    monthlyPayment: schedule.monthlyPayment,
+    upfrontCosts,
+    financedCosts,
+    lenderCredit,
+    horizon: analyzeRefinanceHorizon({
+      current: input.current,
+      newSchedule: schedule,
+      upfrontCosts,
+      horizonMonths: input.horizonMonths,
+      discountRatePercent: input.discountRatePercent
+    })
+  }
+}
+
+export const MAX_REFINANCE_QUOTES = 6
+
+export type RefinanceQuote = {
+  id: number
+  ratePercent: number
+  /** Discount points; one point is 1% of the loan amount */
+  points: number
+  lenderCredit: number
+  /** Other lender and third-party fees */
+  fees: number
+  termYears: number
+}
+
+export type QuoteAnalysis = {
+  quote: RefinanceQuote
+  monthlyPayment: number
+  /** Points plus fees minus lender credit; negative when the credit exceeds the costs */
+  upfrontCost: number
+  /** Upfront cost plus interest paid through each month; index 0 is closing day */
+  cumulativeCost: number[]
+  totalCostAtHorizon: number
+  /** 1 for the cheapest quote at the horizon */
+  rank: number
+}
+
+/**
+ * Every quote refinances the same balance. Payments made plus the payoff still owed, less that
+ * balance, is exactly the interest paid, so a quote's cost through any month is its upfront cost
+ * plus the interest paid so far, whatever its term.
+ */
+export function compareRefinanceQuotes(
+  balance: number,
+  quotes: RefinanceQuote[],
+  horizonMonths: number
+): QuoteAnalysis[] {
+  const months = Math.round(clampNonNegative(horizonMonths))
+
+  const analyses = quotes.map(quote => {
+    const schedule = buildAmortizationSchedule({
+      principal: balance,
+      annualRatePercent: quote.ratePercent,
+      termYears: quote.termYears
+    })
+    const upfrontCost =
+      (schedule.principal * clampNonNegative(quote.points)) / 100 +
+      clampNonNegative(quote.fees) -
+      clampNonNegative(quote.lenderCredit)
+
+    const cumulativeCost = [upfrontCost]
+    for (let month = 1; month <= months; month++) {
+      const row = schedule.rows[Math.min(month, schedule.rows.length) - 1]
+      cumulativeCost.push(upfrontCost + (row?.cumulativeInterest ?? 0))
+    }
+
+    return {
+      quote,
+      monthlyPayment: schedule.monthlyPayment,
+      upfrontCost,
+      cumulativeCost,
+      totalCostAtHorizon: cumulativeCost[cumulativeCost.length - 1],
+      rank: 0
+    }
+  })
+
+  const order = [...analyses].sort((a, b) => a.totalCostAtHorizon - b.totalCostAtHorizon)
+  order.forEach((analysis, i) => {
+    analysis.rank = i + 1
+  })
+  return analyses
+}
+
+
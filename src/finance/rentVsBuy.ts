@@ -0,0 +1,268 @@
+import { buildAmortizationSchedule, clampNonNegative } from './amortization'
+import { PMI_AUTOMATIC_TERMINATION_LTV, PMI_REQUEST_REMOVAL_LTV } from './pmi'
+import {
+  calculateHomeSaleCapitalGainsTax,
+  calculateHomeownerTaxSavings,
+  type FilingStatus
+} from './tax'
+
+// Year-by-year rent vs buy projection. Renting costs the rent paid; buying costs every dollar paid
+// out (down payment, closing costs, mortgage, escrow, upkeep) less the income tax it saves and
+// the cash a buyer walks away with after selling costs, the loan payoff and capital gains tax.
+//
+// Net worth puts both households on the same cash budget: the renter invests the cash the buyer
+// spends at closing, and each month whichever side pays less invests the difference.
+
+export type RentVsBuyAssumptions = {
+  downPaymentPercent: number
+  mortgageRatePercent: number
+  loanTermYears: number
+  /** Annual property tax, as a percent of the current home value */
+  propertyTaxPercent: number
+  /** Annual upkeep, as a percent of the current home value */
+  maintenancePercent: number
+  /** Annual homeowners insurance, as a percent of the current home value */
+  insurancePercent: number
+  monthlyHoa: number
+  /** Annual PMI, as a percent of the original loan; charged only when putting less than 20% down */
+  pmiRatePercent: number
+  /** Buyer's closing costs, as a percent of the purchase price */
+  buyingClosingCostPercent: number
+  /** Listing and buyer's agent commissions on a sale, as a percent of the sale price */
+  agentCommissionPercent: number
+  /** Seller's other closing costs, as a percent of the sale price */
+  sellingClosingCostPercent: number
+  filingStatus: FilingStatus
+  marginalTaxRatePercent: number
+  /** Annual state and local income tax, which shares the SALT cap with property tax */
+  stateIncomeTax: number
+  /** Rate on any gain above the primary residence exclusion */
+  capitalGainsTaxRatePercent: number
+}
+
+export const DEFAULT_RENT_VS_BUY_ASSUMPTIONS: RentVsBuyAssumptions = {
+  downPaymentPercent: 20,
+  mortgageRatePercent: 6.5,
+  loanTermYears: 30,
+  propertyTaxPercent: 1,
+  maintenancePercent: 1,
+  insurancePercent: 0.35,
+  monthlyHoa: 0,
+  pmiRatePercent: 0.5,
+  buyingClosingCostPercent: 3,
+  agentCommissionPercent: 5.5,
+  sellingClosingCostPercent: 1,
+  filingStatus: 'married-joint',
+  marginalTaxRatePercent: 22,
+  stateIncomeTax: 0,
+  capitalGainsTaxRatePercent: 15
+}
+
+/** Rates for a single year of a simulated path; they may be negative. */
+export type RentVsBuyYearRates = {
+  homeAppreciationPercent: number
+  rentInflationPercent: number
+  investmentReturnPercent: number
+}
+
+export type RentVsBuyInput = {
+  homePrice: number
+  monthlyRent: number
+  rentInflationPercent: number
+  homeAppreciationPercent: number
+  /** Annual return on invested cash, compounded monthly */
+  investmentReturnPercent: number
+  years: number
+  assumptions: RentVsBuyAssumptions
+  /** Per-year rates overriding the constant rates above, e.g. one Monte Carlo path */
+  yearlyRates?: RentVsBuyYearRates[]
+}
+
+export type RentVsBuyYear = {
+  year: number
+  /** Rent paid through the end of this year */
+  rentCost: number
+  /** Cash paid out for the home through this year, including the down payment, net of tax savings */
+  buyOutlay: number
+  /** Income tax saved by itemizing mortgage interest and property tax, through this year */
+  taxSavings: number
+  homeValue: number
+  loanBalance: number
+  /** Commission and other selling costs if the home is sold at the end of this year */
+  sellingCosts: number
+  capitalGainsTax: number
+  /** What the buyer walks away with: home value less selling costs, loan payoff and capital gains tax */
+  saleProceeds: number
+  /** Outlay less sale proceeds: what owning has cost if the home is sold at the end of this year */
+  buyNetCost: number
+  /** Renter's investments: the cash kept at closing plus monthly savings versus owning */
+  renterNetWorth: number
+  /** Buyer's investments from months where owning cost less than renting */
+  buyerPortfolio: number
+  /** Sale proceeds plus the buyer's investments */
+  buyerNetWorth: number
+}
+
+export type RentVsBuyProjection = {
+  years: RentVsBuyYear[]
+  /** First year the net cost of buying is at or below the rent paid */
+  crossoverYear: number | null
+  /** First year the buyer's net worth is at or above the renter's */
+  netWorthCrossoverYear: number | null
+  downPayment: number
+  buyingClosingCosts: number
+  loanAmount: number
+  monthlyMortgagePayment: number
+  /** Zero when the down payment avoids PMI */
+  monthlyPmi: number
+}
+
+/** 1 + rate, with rates below -100% treated as a total loss. */
+function growthFactor(ratePercent: number) {
+  return Number.isFinite(ratePercent) ? Math.max(0, 1 + ratePercent / 100) : 1
+}
+
+export function projectRentVsBuy({
+  homePrice,
+  monthlyRent,
+  rentInflationPercent,
+  homeAppreciationPercent,
+  investmentReturnPercent,
+  years,
+  assumptions: a,
+  yearlyRates
+}: RentVsBuyInput): RentVsBuyProjection {
+  const horizon = Math.min(50, Math.max(1, Math.round(years)))
+  const price = clampNonNegative(homePrice)
+  const rent = clampNonNegative(monthlyRent)
+  const constantRates: RentVsBuyYearRates = {
+    homeAppreciationPercent: clampNonNegative(homeAppreciationPercent),
+    rentInflationPercent: clampNonNegative(rentInflationPercent),
+    investmentReturnPercent: clampNonNegative(investmentReturnPercent)
+  }
+
+  const downPayment = (price * Math.min(100, clampNonNegative(a.downPaymentPercent))) / 100
+  const buyingClosingCosts = (price * clampNonNegative(a.buyingClosingCostPercent)) / 100
+  const loanAmount = Math.max(0, price - downPayment)
+
+  const mortgage = buildAmortizationSchedule({
+    principal: loanAmount,
+    annualRatePercent: a.mortgageRatePercent,
+    termYears: a.loanTermYears
+  })
+
+  // PMI follows the original schedule and ends once the balance reaches 78% of the purchase price.
+  const needsPmi = price > 0 && (loanAmount / price) * 100 > PMI_REQUEST_REMOVAL_LTV
+  const monthlyPmi = needsPmi ? (loanAmount * clampNonNegative(a.pmiRatePercent)) / 100 / 12 : 0
+  const pmiEndsAtBalance = (price * PMI_AUTOMATIC_TERMINATION_LTV) / 100
+
+  const carryingPercent =
+    clampNonNegative(a.propertyTaxPercent) +
+    clampNonNegative(a.maintenancePercent) +
+    clampNonNegative(a.insurancePercent)
+
+  const sellingPercent =
+    clampNonNegative(a.agentCommissionPercent) + clampNonNegative(a.sellingClosingCostPercent)
+  const costBasis = price + buyingClosingCosts
+
+  const points: RentVsBuyYear[] = []
+  let rentCost = 0
+  let taxSavings = 0
+  let buyOutlay = downPayment + buyingClosingCosts
+  let balance = mortgage.principal
+  let renterNetWorth = buyOutlay
+  let buyerPortfolio = 0
+  let homeValue = price
+  let monthlyRentThisYear = rent
+  let crossoverYear: number | null = null
+  let netWorthCrossoverYear: number | null = null
+
+  for (let year = 1; year <= horizon; year++) {
+    // Rent and the value-based costs step up once per year
+    const rates = yearlyRates?.[year - 1] ?? constantRates
+    const valueAtStart = homeValue
+    if (year > 1) monthlyRentThisYear *= growthFactor(rates.rentInflationPercent)
+    const monthlyReturn = (growthFactor(rates.investmentReturnPercent) - 1) / 12
+    const yearRows = mortgage.rows.slice((year - 1) * 12, year * 12)
+    const yearTaxSavings = calculateHomeownerTaxSavings({
+      filingStatus: a.filingStatus,
+      marginalRatePercent: a.marginalTaxRatePercent,
+      mortgageInterest: yearRows.reduce((sum, row) => sum + row.interest, 0),
+      loanAmount,
+      propertyTax: (valueAtStart * clampNonNegative(a.propertyTaxPercent)) / 100,
+      stateIncomeTax: a.stateIncomeTax
+    })
+    taxSavings += yearTaxSavings
+    // Tax savings are spread over the year, as if withholding were adjusted to match.
+    const monthlyCarrying =
+      (valueAtStart * carryingPercent) / 100 / 12 +
+      clampNonNegative(a.monthlyHoa) -
+      yearTaxSavings / 12
+
+    for (let month = (year - 1) * 12 + 1; month <= year * 12; month++) {
+      const row = mortgage.rows[month - 1]
+      let ownerCost = monthlyCarrying
+      if (row) {
+        if (balance > pmiEndsAtBalance) ownerCost += monthlyPmi
+        ownerCost += row.payment
+        balance = row.balance
+      }
+
+      rentCost += monthlyRentThisYear
+      buyOutlay += ownerCost
+
+      renterNetWorth *= 1 + monthlyReturn
+      buyerPortfolio *= 1 + monthlyReturn
+      const difference = ownerCost - monthlyRentThisYear
+      if (difference > 0) renterNetWorth += difference
+      else buyerPortfolio -= difference
+    }
+
+    homeValue = valueAtStart * growthFactor(rates.homeAppreciationPercent)
+    const sellingCosts = (homeValue * sellingPercent) / 100
+    const capitalGainsTax = calculateHomeSaleCapitalGainsTax({
+      filingStatus: a.filingStatus,
+      gain: homeValue - sellingCosts - costBasis,
+      yearsOwned: year,
+      ratePercent: a.capitalGainsTaxRatePercent
+    })
+    const saleProceeds = homeValue - balance - sellingCosts - capitalGainsTax
+    const buyNetCost = Math.max(0, buyOutlay - saleProceeds)
+
+    const buyerNetWorth = saleProceeds + buyerPortfolio
+
+    if (crossoverYear === null && buyNetCost <= rentCost) crossoverYear = year
+    if (netWorthCrossoverYear === null && buyerNetWorth >= renterNetWorth) {
+      netWorthCrossoverYear = year
+    }
+
+    points.push({
+      year,
+      rentCost,
+      buyOutlay,
+      taxSavings,
+      homeValue,
+      loanBalance: balance,
+      sellingCosts,
+      capitalGainsTax,
+      saleProceeds,
+      buyNetCost,
+      renterNetWorth,
+      buyerPortfolio,
+      buyerNetWorth
+    })
+  }
+
+  return {
+    years: points,
+    crossoverYear,
+    netWorthCrossoverYear,
+    downPayment,
+    buyingClosingCosts,
+    loanAmount,
+    monthlyMortgagePayment: mortgage.monthlyPayment,
+    monthlyPmi
+  }
+}
+
+
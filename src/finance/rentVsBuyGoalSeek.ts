@@ -0,0 +1,98 @@
+import { projectRentVsBuy, type RentVsBuyInput } from './rentVsBuy'
+
+// Goal seek for rent vs buy: the home price, or the monthly rent, at which the buyer and the renter
+// end the horizon with the same net worth.
+
+export type GoalSeekVariable = 'home-price' | 'monthly-rent'
+
+export type SensitivityPoint = {
+  value: number
+  /** Buyer net worth minus renter net worth at the end of the horizon */
+  netWorthAdvantage: number
+}
+
+export type GoalSeekResult = {
+  variable: GoalSeekVariable
+  /** Null when no value in the search range breaks even */
+  breakEvenValue: number | null
+  sensitivity: SensitivityPoint[]
+}
+
+const MAX_ITERATIONS = 100
+/** Stop once the bracket is narrower than a dollar. */
+const VALUE_TOLERANCE = 1
+/** Search ceilings: far beyond any realistic home price or rent. */
+const SEARCH_LIMITS: Record<GoalSeekVariable, number> = {
+  'home-price': 100_000_000,
+  'monthly-rent': 1_000_000
+}
+const SENSITIVITY_STEPS = 20
+
+export function netWorthAdvantageAtHorizon(input: RentVsBuyInput) {
+  const projection = projectRentVsBuy(input)
+  const last = projection.years[projection.years.length - 1]
+  return last ? last.buyerNetWorth - last.renterNetWorth : 0
+}
+
+function withValue(input: RentVsBuyInput, variable: GoalSeekVariable, value: number) {
+  return variable === 'home-price'
+    ? { ...input, homePrice: value }
+    : { ...input, monthlyRent: value }
+}
+
+/**
+ * Bisection on the solved variable. Buying looks better as the price falls or the rent rises, so
+ * the advantage changes sign once across [0, limit]; the upper end of the bracket starts at the
+ * current value and doubles until it crosses.
+ */
+function solveBreakEven(input: RentVsBuyInput, variable: GoalSeekVariable) {
+  const advantageAt = (value: number) =>
+    netWorthAdvantageAtHorizon(withValue(input, variable, value))
+  const limit = SEARCH_LIMITS[variable]
+
+  let low = 0
+  const lowAdvantage = advantageAt(low)
+  if (lowAdvantage === 0) return 0
+
+  let high = Math.max(1_000, variable === 'home-price' ? input.homePrice : input.monthlyRent)
+  while (Math.sign(advantageAt(high)) === Math.sign(lowAdvantage)) {
+    if (high >= limit) return null
+    low = high
+    high = Math.min(limit, high * 2)
+  }
+
+  for (let i = 0; i < MAX_ITERATIONS && high - low > VALUE_TOLERANCE; i++) {
+    const mid = (low + high) / 2
+    if (Math.sign(advantageAt(mid)) === Math.sign(lowAdvantage)) low = mid
+    else high = mid
+  }
+  return (low + high) / 2
+}
+
+/** Outcome from half to one and a half times the center value. */
+function buildSensitivity(input: RentVsBuyInput, variable: GoalSeekVariable, center: number) {
+  const points: SensitivityPoint[] = []
+  for (let step = 0; step <= SENSITIVITY_STEPS; step++) {
+    const value = center * (0.5 + step / SENSITIVITY_STEPS)
+    points.push({
+      value,
+      netWorthAdvantage: netWorthAdvantageAtHorizon(withValue(input, variable, value))
+    })
+  }
+  return points
+}
+
+export function goalSeekRentVsBuy(
+  input: RentVsBuyInput,
+  variable: GoalSeekVariable
+): GoalSeekResult {
+  const breakEvenValue = solveBreakEven(input, variable)
+  const current = variable === 'home-price' ? input.homePrice : input.monthlyRent
+  return {
+    variable,
+    breakEvenValue,
+    sensitivity: buildSensitivity(input, variable, breakEvenValue || current)
+  }
+}
+
+
@@ -0,0 +1,136 @@
+import { clampNonNegative } from './amortization'
+import { projectRentVsBuy, type RentVsBuyInput, type RentVsBuyYearRates } from './rentVsBuy'
+
+// Monte Carlo rent vs buy: appreciation, rent inflation and investment returns are drawn
+// independently each year from normal distributions, and every path runs the full projection.
+
+export type RateDistribution = {
+  meanPercent: number
+  /** Standard deviation of the annual rate, in percentage points */
+  stdDevPercent: number
+}
+
+export type RentVsBuySimulationInput = {
+  /** The deterministic inputs; their constant rates are replaced by sampled ones */
+  base: Omit<RentVsBuyInput, 'yearlyRates'>
+  homeAppreciation: RateDistribution
+  rentInflation: RateDistribution
+  investmentReturn: RateDistribution
+  paths: number
+  /** Same seed, same paths: results only change when the inputs do */
+  seed?: number
+}
+
+export type PercentileBand = {
+  p10: number
+  p50: number
+  p90: number
+}
+
+export type RentVsBuySimulationYear = {
+  year: number
+  rentCost: PercentileBand
+  buyNetCost: PercentileBand
+  /** Buyer net worth minus renter net worth */
+  netWorthAdvantage: PercentileBand
+}
+
+export type RentVsBuySimulation = {
+  years: RentVsBuySimulationYear[]
+  paths: number
+  /** Share of paths where the buyer's net worth is at or above the renter's in the final year */
+  probabilityBuyingWins: number
+}
+
+export const MAX_SIMULATION_PATHS = 10_000
+
+/** Small, fast seeded generator (mulberry32); plenty for sampling, not for cryptography. */
+function createRandom(seed: number) {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/** Standard normal draw by the Box–Muller transform. */
+function sampleNormal(random: () => number) {
+  const u = 1 - random()
+  const v = random()
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+}
+
+function sampleRate(random: () => number, { meanPercent, stdDevPercent }: RateDistribution) {
+  return meanPercent + clampNonNegative(stdDevPercent) * sampleNormal(random)
+}
+
+/** Linear interpolation between closest ranks; `sorted` must be ascending. */
+function percentile(sorted: Float64Array, fraction: number) {
+  if (sorted.length === 0) return 0
+  const position = (sorted.length - 1) * fraction
+  const lower = Math.floor(position)
+  const upper = Math.min(sorted.length - 1, lower + 1)
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower)
+}
+
+function band(values: Float64Array): PercentileBand {
+  const sorted = values.slice().sort()
+  return {
+    p10: percentile(sorted, 0.1),
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9)
+  }
+}
+
+export function simulateRentVsBuy({
+  base,
+  homeAppreciation,
+  rentInflation,
+  investmentReturn,
+  paths,
+  seed = 1
+}: RentVsBuySimulationInput): RentVsBuySimulation {
+  const pathCount = Math.min(MAX_SIMULATION_PATHS, Math.max(1, Math.round(paths)))
+  const horizon = Math.min(50, Math.max(1, Math.round(base.years)))
+  const random = createRandom(seed)
+
+  const rentCosts = Array.from({ length: horizon }, () => new Float64Array(pathCount))
+  const buyNetCosts = Array.from({ length: horizon }, () => new Float64Array(pathCount))
+  const advantages = Array.from({ length: horizon }, () => new Float64Array(pathCount))
+  let buyingWins = 0
+
+  for (let path = 0; path < pathCount; path++) {
+    const yearlyRates: RentVsBuyYearRates[] = []
+    for (let year = 0; year < horizon; year++) {
+      yearlyRates.push({
+        homeAppreciationPercent: sampleRate(random, homeAppreciation),
+        rentInflationPercent: sampleRate(random, rentInflation),
+        investmentReturnPercent: sampleRate(random, investmentReturn)
+      })
+    }
+
+    const projection = projectRentVsBuy({ ...base, years: horizon, yearlyRates })
+    projection.years.forEach((point, i) => {
+      rentCosts[i][path] = point.rentCost
+      buyNetCosts[i][path] = point.buyNetCost
+      advantages[i][path] = point.buyerNetWorth - point.renterNetWorth
+    })
+    if (advantages[horizon - 1][path] >= 0) buyingWins++
+  }
+
+  return {
+    years: rentCosts.map((_, i) => ({
+      year: i + 1,
+      rentCost: band(rentCosts[i]),
+      buyNetCost: band(buyNetCosts[i]),
+      netWorthAdvantage: band(advantages[i])
+    })),
+    paths: pathCount,
+    probabilityBuyingWins: buyingWins / pathCount
+  }
+}
+
+
@@ -0,0 +1,118 @@
+import { clampNonNegative } from './amortization'
+
+// Federal income tax effects of owning a home, using 2026 figures. Income phase-outs of the SALT cap
+// and the alternative minimum tax are ignored.
+
+export type FilingStatus = 'single' | 'married-joint' | 'married-separate' | 'head-of-household'
+
+export type FilingStatusRules = {
+  label: string
+  standardDeduction: number
+  /** Cap on the combined state and local income and property tax deduction */
+  saltCap: number
+  /** Acquisition debt on which mortgage interest is deductible */
+  mortgageDebtLimit: number
+  /** Gain on a primary residence excluded from tax after two years of ownership and use */
+  capitalGainsExclusion: number
+}
+
+export const FILING_STATUS_RULES: Record<FilingStatus, FilingStatusRules> = {
+  single: {
+    label: 'Single',
+    standardDeduction: 16_100,
+    saltCap: 40_400,
+    mortgageDebtLimit: 750_000,
+    capitalGainsExclusion: 250_000
+  },
+  'married-joint': {
+    label: 'Married filing jointly',
+    standardDeduction: 32_200,
+    saltCap: 40_400,
+    mortgageDebtLimit: 750_000,
+    capitalGainsExclusion: 500_000
+  },
+  'married-separate': {
+    label: 'Married filing separately',
+    standardDeduction: 16_100,
+    saltCap: 20_200,
+    mortgageDebtLimit: 375_000,
+    capitalGainsExclusion: 250_000
+  },
+  'head-of-household': {
+    label: 'Head of household',
+    standardDeduction: 24_150,
+    saltCap: 40_400,
+    mortgageDebtLimit: 750_000,
+    capitalGainsExclusion: 250_000
+  }
+}
+
+/** Years of ownership and use required for the capital gains exclusion. */
+export const CAPITAL_GAINS_EXCLUSION_MIN_YEARS = 2
+
+export function isFilingStatus(value: unknown): value is FilingStatus {
+  return (
+    typeof value === 'string' && Object.prototype.hasOwnProperty.call(FILING_STATUS_RULES, value)
+  )
+}
+
+export type HomeownerTaxInput = {
+  filingStatus: FilingStatus
+  marginalRatePercent: number
+  /** Mortgage interest paid during the year */
+  mortgageInterest: number
+  /** Original loan amount, for the acquisition debt limit */
+  loanAmount: number
+  propertyTax: number
+  /** State and local income tax, which shares the SALT cap with property tax */
+  stateIncomeTax: number
+}
+
+/**
+ * Tax saved by owning for one year: itemized deductions with the home, less whichever of the
+ * standard deduction or the itemized deductions without it the household would take anyway, at the
+ * marginal rate. Zero when the home does not push deductions past the standard deduction.
+ */
+export function calculateHomeownerTaxSavings({
+  filingStatus,
+  marginalRatePercent,
+  mortgageInterest,
+  loanAmount,
+  propertyTax,
+  stateIncomeTax
+}: HomeownerTaxInput) {
+  const rules = FILING_STATUS_RULES[filingStatus]
+  const loan = clampNonNegative(loanAmount)
+  const deductibleShare = loan > rules.mortgageDebtLimit ? rules.mortgageDebtLimit / loan : 1
+  const stateTax = clampNonNegative(stateIncomeTax)
+
+  const withoutHome = Math.max(rules.standardDeduction, Math.min(rules.saltCap, stateTax))
+  const withHome =
+    clampNonNegative(mortgageInterest) * deductibleShare +
+    Math.min(rules.saltCap, stateTax + clampNonNegative(propertyTax))
+
+  return (Math.max(0, withHome - withoutHome) * clampNonNegative(marginalRatePercent)) / 100
+}
+
+export type CapitalGainsInput = {
+  filingStatus: FilingStatus
+  /** Amount realized (sale price less selling costs) minus the cost basis */
+  gain: number
+  yearsOwned: number
+  ratePercent: number
+}
+
+export function calculateHomeSaleCapitalGainsTax({
+  filingStatus,
+  gain,
+  yearsOwned,
+  ratePercent
+}: CapitalGainsInput) {
+  const exclusion =
+    yearsOwned >= CAPITAL_GAINS_EXCLUSION_MIN_YEARS
+      ? FILING_STATUS_RULES[filingStatus].capitalGainsExclusion
+      : 0
+  return (Math.max(0, clampNonNegative(gain) - exclusion) * clampNonNegative(ratePercent)) / 100
+}
+
+
@@ -0,0 +1,19 @@
+import {
+  type RentVsBuySimulation,
+  type RentVsBuySimulationInput,
+  simulateRentVsBuy
+} from '../finance/rentVsBuySimulation'
+
+// Runs the rent vs buy Monte Carlo off the main thread. Each request carries an id that is echoed
+// back so the caller can drop results for inputs that have since changed.
+
+export type SimulationRequest = { id: number; input: RentVsBuySimulationInput }
+export type SimulationResponse = { id: number; result: RentVsBuySimulation }
+
+self.onmessage = (event: MessageEvent<SimulationRequest>) => {
+  const { id, input } = event.data
+  const response: SimulationResponse = { id, result: simulateRentVsBuy(input) }
+  self.postMessage(response)
+}
+
+